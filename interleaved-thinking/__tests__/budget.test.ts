@@ -0,0 +1,122 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { BudgetTracker } from "../budget.js";
+import { BudgetExceededError } from "../errors.js";
+import { ToolCallManager } from "../lib.js";
+
+describe("BudgetTracker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should limit tool calls per session and per tool", () => {
+    const budget = new BudgetTracker({ maxToolCalls: 3, toolLimits: { search: 1 } });
+
+    budget.reserve("search");
+    expect(() => budget.reserve("search")).toThrow('Tool call limit of "search" reached');
+    budget.reserve("fetch");
+    budget.reserve("fetch");
+    expect(() => budget.reserve("fetch")).toThrow(BudgetExceededError);
+    expect(budget.hasRemaining()).toBe(false);
+  });
+
+  it("should reject batches that don't fit as a whole", () => {
+    const budget = new BudgetTracker({ maxToolCalls: 5, toolLimits: { search: 2 } });
+
+    expect(() => budget.check(["search", "search", "search"])).toThrow(
+      'Tool call limit of "search" reached'
+    );
+    expect(() => budget.check(["a", "b", "c", "d", "e", "f"])).toThrow(
+      "batch of 6 exceeds the 5 remaining call(s)"
+    );
+    expect(() => budget.check(["search", "search", "fetch"])).not.toThrow();
+  });
+
+  it("should stop calls once the execution time is used up", () => {
+    const budget = new BudgetTracker({ maxToolCalls: 10, maxExecutionTime: 1000 });
+
+    budget.recordExecution(600);
+    expect(() => budget.check(["search"])).not.toThrow();
+    budget.recordExecution(400);
+    expect(() => budget.check(["search"])).toThrow("Execution time budget of 1000ms");
+    expect(budget.getReport().executionTime).toEqual({
+      used: 1000,
+      limit: 1000,
+      remaining: 0,
+    });
+  });
+
+  it("should stop calls after the wall-clock budget", () => {
+    vi.useFakeTimers();
+    const budget = new BudgetTracker({ maxToolCalls: 10, maxWallClockTime: 60000 });
+
+    vi.advanceTimersByTime(30000);
+    expect(budget.getReport().wallClockTime?.remaining).toBe(30000);
+    vi.advanceTimersByTime(30000);
+    expect(() => budget.check(["search"])).toThrow("Wall-clock budget of 60000ms");
+
+    budget.reset();
+    expect(budget.hasRemaining()).toBe(true);
+  });
+
+  it("should warn past the warning threshold", () => {
+    const budget = new BudgetTracker({
+      maxToolCalls: 10,
+      toolLimits: { search: 2 },
+      warningThreshold: 0.5,
+    });
+
+    budget.reserve("fetch");
+    expect(budget.getReport().warnings).toBeUndefined();
+
+    budget.reserve("search");
+    expect(budget.getReport().warnings).toEqual(['calls of "search": 1 of 2 used']);
+
+    for (let i = 0; i < 3; i++) {
+      budget.reserve("fetch");
+    }
+    expect(budget.getReport().warnings).toEqual([
+      "tool calls: 5 of 10 used",
+      'calls of "search": 1 of 2 used',
+    ]);
+  });
+
+  it("should keep usage when budgets change", () => {
+    const budget = new BudgetTracker({ maxToolCalls: 2 });
+    budget.reserve("search");
+    budget.reserve("search");
+
+    budget.update({ maxToolCalls: 4, toolLimits: { search: 3 } });
+    expect(budget.getReport()).toMatchObject({
+      toolCalls: { used: 2, limit: 4, remaining: 2 },
+      tools: { search: { used: 2, limit: 3, remaining: 1 } },
+    });
+  });
+});
+
+describe("ToolCallManager budgets", () => {
+  it("should count execution time of calls that ran", async () => {
+    const manager = new ToolCallManager({
+      maxToolCalls: 10,
+      defaultTimeout: 5000,
+      enableCache: true,
+      budget: { maxExecutionTime: 1 },
+    });
+    manager.registerExecutor("slow", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return "done";
+    });
+
+    expect((await manager.executeToolCall({ toolName: "slow", parameters: {} })).success).toBe(
+      true
+    );
+    const result = await manager.executeToolCall({
+      toolName: "slow",
+      parameters: { other: true },
+    });
+    expect(result.error?.type).toBe("BudgetExceededError");
+    expect(manager.canExecuteToolCall()).toBe(false);
+
+    manager.reset();
+    expect(manager.getBudget().executionTime?.used).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ResultCache, canonicalJson } from "../cache.js";
+import type { ToolResultData } from "../lib.js";
+
+const result = (value: unknown): ToolResultData => ({
+  toolName: "t",
+  success: true,
+  result: value,
+  executionTime: 5,
+  timestamp: "t",
+});
+
+describe("ResultCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should key on canonical parameters", () => {
+    const cache = new ResultCache();
+
+    expect(canonicalJson({ b: [1, { d: 1, c: 2 }], a: "x", u: undefined })).toBe(
+      '{"a":"x","b":[1,{"c":2,"d":1}]}'
+    );
+    expect(cache.getKey("t", { a: 1, b: 2 })).toBe(cache.getKey("t", { b: 2, a: 1 }));
+    expect(cache.getKey("t", { a: 1 })).not.toBe(cache.getKey("u", { a: 1 }));
+  });
+
+  it("should expire entries after the TTL", () => {
+    vi.useFakeTimers();
+    const cache = new ResultCache({ ttl: 1000 });
+    cache.set("k", result(1));
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("k")?.result).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(cache.get("k")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry", () => {
+    const cache = new ResultCache({ maxEntries: 2 });
+    cache.set("a", result("a"));
+    cache.set("b", result("b"));
+    cache.get("a");
+    cache.set("c", result("c"));
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it("should skip results above the size limit", () => {
+    const cache = new ResultCache({ maxEntrySize: 10 });
+    cache.set("big", result("x".repeat(20)));
+
+    expect(cache.get("big")).toBeUndefined();
+  });
+
+  it("should apply per-tool policy over the executor flag", () => {
+    const cache = new ResultCache({ tools: { send_email: false, "fs.*": false, slow: true } });
+
+    expect(cache.isCacheable("search")).toBe(false);
+    expect(cache.isCacheable("search", true)).toBe(true);
+    expect(cache.isCacheable("search", false)).toBe(false);
+    expect(cache.isCacheable("send_email", true)).toBe(false);
+    expect(cache.isCacheable("fs.write_file")).toBe(false);
+    expect(cache.isCacheable("slow", false)).toBe(true);
+  });
+
+  it("should persist entries to disk", () => {
+    const dir = mkdtempSync(join(tmpdir(), "it-cache-"));
+    const persistPath = join(dir, "nested", "cache.json");
+    try {
+      const cache = new ResultCache({ persistPath });
+      cache.set("k", result({ ok: true }));
+      cache.close();
+      expect(new ResultCache({ persistPath }).get("k")?.result).toEqual({ ok: true });
+
+      cache.set("l", result({ ok: false }));
+      cache.close();
+      const trimmed = new ResultCache({ persistPath, maxEntries: 1 });
+      expect(trimmed.size).toBe(1);
+      expect(trimmed.get("l")).toBeDefined();
+
+      writeFileSync(persistPath, "not json");
+      expect(new ResultCache({ persistPath }).size).toBe(0);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should batch writes to the persist file", () => {
+    vi.useFakeTimers();
+    const dir = mkdtempSync(join(tmpdir(), "it-cache-"));
+    const persistPath = join(dir, "cache.json");
+    try {
+      const cache = new ResultCache({ persistPath });
+      cache.set("a", result("a"));
+      cache.set("b", result("b"));
+      expect(existsSync(persistPath)).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(new ResultCache({ persistPath }).size).toBe(2);
+
+      cache.set("c", result("c"));
+      cache.close();
+      expect(new ResultCache({ persistPath }).size).toBe(3);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getEffectiveConfig, loadConfigFile, parseCliConfig } from "../config.js";
+
+describe("CLI configuration", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "config-"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should map flags to the server configuration", () => {
+    const config = parseCliConfig([
+      "--max-tool-calls",
+      "10",
+      "--default-timeout=5000",
+      "--no-enable-result-cache",
+      "--validation-mode",
+      "strict",
+      "--cache-file",
+      "/tmp/cache.json",
+      "--tools-config",
+      "tools.json",
+    ]);
+
+    expect(config.server).toEqual({
+      maxToolCalls: 10,
+      defaultTimeout: 5000,
+      enableResultCache: false,
+      validationMode: "strict",
+      resultCache: { persistPath: "/tmp/cache.json" },
+    });
+    expect(config.toolsConfig).toBe("tools.json");
+    expect(config.printConfig).toBe(false);
+  });
+
+  it("should read environment variables with flags taking precedence", () => {
+    vi.stubEnv("INTERLEAVED_THINKING_MAX_TOOL_CALLS", "7");
+    vi.stubEnv("INTERLEAVED_THINKING_MAX_SESSIONS", "3");
+    vi.stubEnv("DISABLE_THOUGHT_LOGGING", "true");
+
+    const config = parseCliConfig(["--max-sessions", "5"]);
+    expect(config.server).toEqual({ maxToolCalls: 7, maxSessions: 5, disableLogging: true });
+  });
+
+  it("should layer a YAML config file below flags", () => {
+    const path = join(dir, "config.yaml");
+    writeFileSync(
+      path,
+      [
+        "maxToolCalls: 20",
+        "defaultTimeout: 1000",
+        "toolsConfig: tools.json",
+        "budget:",
+        "  toolLimits:",
+        "    search: 3",
+      ].join("\n")
+    );
+
+    const config = parseCliConfig(["-c", path, "--default-timeout", "2000"]);
+    expect(config.server).toEqual({
+      maxToolCalls: 20,
+      defaultTimeout: 2000,
+      budget: { toolLimits: { search: 3 } },
+    });
+    expect(config.toolsConfig).toBe(join(dir, "tools.json"));
+  });
+
+  it("should reject invalid flags and config files", () => {
+    expect(() => parseCliConfig(["--max-tool-calls", "0"])).toThrow(
+      "--max-tool-calls must be a positive integer"
+    );
+    expect(() => parseCliConfig(["--unknown-flag"])).toThrow("Unknown argument");
+    expect(() => parseCliConfig(["--validation-mode", "loose"])).toThrow("Invalid values");
+
+    const path = join(dir, "config.json");
+    writeFileSync(path, JSON.stringify({ maxToolCalls: "many", extra: true }));
+    expect(() => loadConfigFile(path)).toThrow(/maxToolCalls: .*; \(root\): Unrecognized key/);
+    expect(() => loadConfigFile(join(dir, "missing.json"))).toThrow("Cannot read config file");
+  });
+
+  it("should resolve relative paths of a config file against its directory", () => {
+    const path = join(dir, "config.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        persistenceDir: "sessions",
+        toolsConfig: "./tools.json",
+        logging: { file: "logs/server.log" },
+        resultCache: { persistPath: "/var/cache/results.json" },
+      })
+    );
+
+    const config = parseCliConfig(["-c", path, "--cache-file", "cache.json"]);
+    expect(config.server).toMatchObject({
+      persistenceDir: join(dir, "sessions"),
+      logging: { file: join(dir, "logs", "server.log") },
+      // Flags stay relative to the working directory
+      resultCache: { persistPath: "cache.json" },
+    });
+    expect(config.toolsConfig).toBe(join(dir, "tools.json"));
+    expect(loadConfigFile(path).resultCache?.persistPath).toBe("/var/cache/results.json");
+  });
+
+  it("should accept a session TTL of 0 to disable expiry", () => {
+    expect(parseCliConfig(["--session-ttl", "0"]).server.sessionTtl).toBe(0);
+    expect(() => parseCliConfig(["--session-ttl", "-1"])).toThrow(
+      "--session-ttl must be a non-negative integer"
+    );
+
+    const path = join(dir, "config.json");
+    writeFileSync(path, JSON.stringify({ sessionTtl: 0 }));
+    expect(loadConfigFile(path)).toEqual({ sessionTtl: 0 });
+  });
+
+  it("should merge log flags into the logging settings of the file", () => {
+    const path = join(dir, "config.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ logging: { redactKeys: ["token"], level: "warn" } })
+    );
+
+    const config = parseCliConfig([
+      "-c",
+      path,
+      "--log-format",
+      "json",
+      "--log-level",
+      "debug",
+    ]);
+    expect(config.server.logging).toEqual({
+      redactKeys: ["token"],
+      level: "debug",
+      format: "json",
+    });
+  });
+
+  it("should configure the HTTP transport", () => {
+    vi.stubEnv("INTERLEAVED_THINKING_AUTH_TOKEN", "secret");
+
+    const config = parseCliConfig(["--transport", "http", "--port", "8080"]);
+    expect(config.transport).toBe("http");
+    expect(config.http).toEqual({ host: "127.0.0.1", port: 8080, authToken: "secret" });
+    expect(getEffectiveConfig(config).http).toMatchObject({ authToken: "<redacted>" });
+
+    expect(parseCliConfig(["--allowed-hosts", "a.example, b.example"]).http.allowedHosts).toEqual([
+      "a.example",
+      "b.example",
+    ]);
+    expect(parseCliConfig([]).transport).toBe("stdio");
+    expect(() => parseCliConfig(["--port", "70000"])).toThrow("--port must be a port number");
+  });
+
+  it("should parse the export subcommand", () => {
+    vi.stubEnv("INTERLEAVED_THINKING_PERSISTENCE_DIR", dir);
+
+    const config = parseCliConfig(["export", "s1", "--format", "mermaid", "-o", "out.mmd"]);
+    expect(config.export).toEqual({ sessionId: "s1", format: "mermaid", output: "out.mmd" });
+    expect(parseCliConfig(["export", "s1"]).export?.format).toBe("markdown");
+    expect(parseCliConfig([]).export).toBeUndefined();
+
+    expect(() => parseCliConfig(["export", "s1", "--format", "pdf"])).toThrow("Invalid values");
+    expect(() => parseCliConfig(["--format", "json"])).toThrow("Unknown argument");
+    expect(() => parseCliConfig(["publish"])).toThrow("Unknown command");
+
+    vi.unstubAllEnvs();
+    expect(() => parseCliConfig(["export", "s1"])).toThrow("export needs --persistence-dir");
+  });
+
+  it("should include defaults in the effective configuration", () => {
+    const effective = getEffectiveConfig(
+      parseCliConfig(["--max-tool-calls", "10", "--print-config"])
+    );
+
+    expect(effective).toMatchObject({
+      maxToolCalls: 10,
+      defaultTimeout: 30000,
+      enableResultCache: true,
+      validationMode: "lenient",
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { DownstreamServerManager, loadDownstreamConfig } from "../downstream.js";
+import { InterleavedThinkingServer } from "../lib.js";
+// @ts-expect-error - plain JS fixture
+import { createStubServer } from "./fixtures/stub-mcp-server.mjs";
+
+const stubPath = resolve(__dirname, "fixtures/stub-mcp-server.mjs");
+const stdioStub = {
+  name: "stub",
+  command: process.execPath,
+  args: [stubPath, "--stdio"],
+};
+
+describe("DownstreamServerManager", () => {
+  let manager: DownstreamServerManager | undefined;
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = undefined;
+  });
+
+  it("should call tools on a stdio server", async () => {
+    manager = new DownstreamServerManager([stdioStub]);
+
+    const response = await manager.callTool("stub", "echo", { text: "hello" });
+    expect(response.content).toEqual([{ type: "text", text: "hello" }]);
+    expect(await manager.listTools()).toEqual(["stub.echo", "stub.fail"]);
+  });
+
+  it("should only cache read-only idempotent tools", async () => {
+    manager = new DownstreamServerManager([stdioStub]);
+    const { cacheable } = manager.createExecutor("stub");
+
+    expect(typeof cacheable === "function" && (await cacheable("stub.echo"))).toBe(true);
+    expect(await manager.isCacheable("stub", "fail")).toBe(false);
+    expect(await manager.isCacheable("stub", "missing")).toBe(false);
+    expect(await manager.isCacheable("nope", "echo")).toBe(false);
+  });
+
+  it("should turn downstream tool errors into rejections", async () => {
+    manager = new DownstreamServerManager([stdioStub]);
+
+    await expect(manager.callTool("stub", "fail", {})).rejects.toThrow(
+      "stub failure"
+    );
+  });
+
+  it("should call tools on a Streamable HTTP server", async () => {
+    const httpServer: Server = createServer(async (req, res) => {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on("close", () => transport.close());
+      await createStubServer().connect(transport);
+      await transport.handleRequest(req, res);
+    });
+    await new Promise<void>((done) => httpServer.listen(0, "127.0.0.1", done));
+    const { port } = httpServer.address() as AddressInfo;
+
+    try {
+      manager = new DownstreamServerManager([
+        { name: "remote", url: `http://127.0.0.1:${port}/mcp` },
+      ]);
+
+      const executor = manager.createExecutor("remote");
+      const response = await executor.execute(
+        { text: "over http" },
+        {
+          toolName: "remote.echo",
+          timeout: 5000,
+          signal: new AbortController().signal,
+        }
+      );
+      expect(response.content[0].text).toBe("over http");
+    } finally {
+      await manager?.close();
+      manager = undefined;
+      httpServer.closeAllConnections();
+      await new Promise((done) => httpServer.close(done));
+    }
+  });
+
+  it("should reject invalid server configs", () => {
+    expect(() => new DownstreamServerManager([{ name: "a.b", command: "x" }])).toThrow(
+      /must not contain/
+    );
+    expect(() => new DownstreamServerManager([{ name: "empty" }])).toThrow(
+      /command or a url/
+    );
+  });
+});
+
+describe("InterleavedThinkingServer with downstream servers", () => {
+  let server: InterleavedThinkingServer;
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    await server.close();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("should proxy namespaced tool calls and record the real response", async () => {
+    server = new InterleavedThinkingServer({
+      disableLogging: true,
+      downstreamServers: [stdioStub],
+    });
+
+    const result = await server.processStep({
+      thought: "Ask the stub",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+      toolCall: { toolName: "stub.echo", parameters: { text: "proxied" } },
+    });
+
+    expect(JSON.parse(result.content[0].text).toolResult.success).toBe(true);
+    const record = server.getHistory().toolCalls[0];
+    expect(record.result.result.content[0].text).toBe("proxied");
+  });
+
+  it("should load mcpServers from a tool config file", async () => {
+    dir = mkdtempSync(join(tmpdir(), "it-downstream-"));
+    const configPath = join(dir, "tools.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        mcpServers: {
+          stub: { command: process.execPath, args: [stubPath, "--stdio"] },
+        },
+      })
+    );
+
+    expect(await loadDownstreamConfig(configPath)).toEqual([
+      { ...stdioStub, cwd: dir },
+    ]);
+
+    server = new InterleavedThinkingServer({ disableLogging: true });
+    expect(await server.loadToolConfig(configPath)).toEqual(["stub.*"]);
+  });
+});
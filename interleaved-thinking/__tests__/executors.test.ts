@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import {
+  ToolExecutorRegistry,
+  createFunctionExecutor,
+  createShellExecutor,
+  loadExecutorsFromConfig,
+} from "../executors.js";
+
+const context = {
+  toolName: "test",
+  timeout: 1000,
+  signal: new AbortController().signal,
+};
+
+describe("ToolExecutorRegistry", () => {
+  it("should register functions and executors by name", async () => {
+    const registry = new ToolExecutorRegistry();
+    registry.register("b", (params) => params.value * 2);
+    registry.register("a", createFunctionExecutor(() => "a"));
+
+    expect(registry.list()).toEqual(["a", "b"]);
+    expect(registry.has("b")).toBe(true);
+    expect(await registry.get("b")!.execute({ value: 21 }, context)).toBe(42);
+
+    expect(registry.unregister("a")).toBe(true);
+    expect(registry.has("a")).toBe(false);
+  });
+});
+
+describe("createShellExecutor", () => {
+  it("should substitute parameters into args and return stdout", async () => {
+    const executor = createShellExecutor({
+      command: process.execPath,
+      args: ["-e", "process.stdout.write('hello ' + process.argv[1])", "{{name}}"],
+    });
+
+    expect(await executor.execute({ name: "world" }, context)).toBe("hello world");
+  });
+
+  it("should pass parameters as JSON on stdin and parse JSON output", async () => {
+    const executor = createShellExecutor({
+      command: process.execPath,
+      args: [
+        "-e",
+        "let d='';process.stdin.on('data',c=>d+=c).on('end',()=>process.stdout.write(JSON.stringify({got:JSON.parse(d)})))",
+      ],
+      parseJson: true,
+    });
+
+    expect(await executor.execute({ x: 1 }, context)).toEqual({ got: { x: 1 } });
+  });
+
+  it("should kill the command when the signal aborts", async () => {
+    const executor = createShellExecutor({
+      command: process.execPath,
+      args: ["-e", "setTimeout(() => {}, 60000)"],
+    });
+    const controller = new AbortController();
+
+    const pending = executor.execute({}, { ...context, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(/abort/i);
+  });
+
+  it("should reject on a non-zero exit code", async () => {
+    const executor = createShellExecutor({
+      command: process.execPath,
+      args: ["-e", "console.error('bad input'); process.exit(3)"],
+    });
+
+    await expect(executor.execute({}, context)).rejects.toThrow(
+      /exited with code 3: bad input/
+    );
+  });
+});
+
+describe("loadExecutorsFromConfig", () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load shell and module executors", async () => {
+    dir = mkdtempSync(join(tmpdir(), "it-tools-"));
+    const configPath = join(dir, "tools.json");
+    const fixture = resolve(__dirname, "fixtures/echo-tool.mjs");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        tools: {
+          echo: { type: "module", module: fixture },
+          upper: { type: "module", module: fixture, export: "upper", cacheable: false },
+          node_version: {
+            type: "shell",
+            command: process.execPath,
+            args: ["--version"],
+            cacheable: false,
+          },
+        },
+      })
+    );
+
+    const executors = await loadExecutorsFromConfig(configPath);
+
+    expect([...executors.keys()]).toEqual(["echo", "upper", "node_version"]);
+    expect(await executors.get("echo")!.execute({ a: 1 }, context)).toEqual({
+      echoed: { a: 1 },
+    });
+    expect(await executors.get("upper")!.execute({ text: "hi" }, context)).toBe("HI");
+    expect(await executors.get("node_version")!.execute({}, context)).toBe(
+      process.version
+    );
+    expect(executors.get("echo")!.cacheable).toBeUndefined();
+    expect(executors.get("upper")!.cacheable).toBe(false);
+    expect(executors.get("node_version")!.cacheable).toBe(false);
+  });
+
+  it("should reject unknown executor types", async () => {
+    dir = mkdtempSync(join(tmpdir(), "it-tools-"));
+    const configPath = join(dir, "tools.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({ tools: { bad: { type: "http", url: "x" } } })
+    );
+
+    await expect(loadExecutorsFromConfig(configPath)).rejects.toThrow(
+      /Unknown executor type/
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildSessionExport,
+  exportPersistedSession,
+  exportSession,
+  renderMarkdown,
+  renderMermaid,
+} from "../export.js";
+import { InterleavedThinkingServer, StepHistory } from "../lib.js";
+
+describe("Session export", () => {
+  let dir: string;
+  let server: InterleavedThinkingServer;
+  let history: StepHistory;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "export-"));
+    server = new InterleavedThinkingServer({
+      disableLogging: true,
+      persistenceDir: dir,
+      executors: {
+        search: ({ query }) => ({ hits: [`${query} docs`] }),
+        fetch: () => {
+          throw new Error("offline");
+        },
+      },
+    });
+
+    const steps = [
+      { thought: "Plan the search.", stepNumber: 1, totalSteps: 4, nextStepNeeded: true },
+      {
+        thought: "Search",
+        stepNumber: 2,
+        totalSteps: 4,
+        nextStepNeeded: true,
+        toolCall: { toolName: "search", parameters: { query: "retry" } },
+      },
+      { thought: "Found the docs.", stepNumber: 3, totalSteps: 4, nextStepNeeded: true },
+      {
+        thought: "Try fetching instead",
+        stepNumber: 3,
+        totalSteps: 4,
+        nextStepNeeded: true,
+        branchFromStep: 2,
+        branchId: "alt",
+        toolCall: { toolName: "fetch", parameters: { url: "https://example.com" } },
+      },
+      {
+        thought: "Better plan: search the changelog.",
+        stepNumber: 4,
+        totalSteps: 4,
+        nextStepNeeded: false,
+        isRevision: true,
+        revisesStep: 1,
+        branchId: "main",
+      },
+    ];
+    for (const step of steps) {
+      await server.processStep({ sessionId: "s1", ...step });
+    }
+    history = server.getHistory("s1");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should build a versioned JSON document", () => {
+    const document = buildSessionExport(history, "s1");
+
+    expect(document).toMatchObject({
+      format: "interleaved-thinking-session",
+      version: 1,
+      sessionId: "s1",
+      activeBranch: "main",
+      branches: [{ id: "alt", parentBranch: "main", forkStep: 2, status: "active" }],
+      statistics: { totalSteps: 5, totalToolCalls: 2, failedToolCalls: 1 },
+    });
+    expect(document.steps.map((step) => [step.id, step.stepNumber, step.phase])).toEqual([
+      [1, 1, "thinking"],
+      [2, 2, "tool_call"],
+      [3, 3, "analysis"],
+      [4, 3, "tool_call"],
+      [5, 4, "thinking"],
+    ]);
+    expect(document.steps[1].toolCalls).toEqual([
+      expect.objectContaining({
+        toolName: "search",
+        parameters: { query: "retry" },
+        success: true,
+        result: { hits: ["retry docs"] },
+        cached: false,
+      }),
+    ]);
+    expect(document.steps[3].toolCalls[0]).toMatchObject({
+      success: false,
+      error: { type: "ToolExecutionError", message: expect.stringContaining("offline") },
+    });
+    expect(document.steps[0].supersededById).toBe(5);
+    expect(document.steps[4]).toMatchObject({ revisesStep: 1, revisesId: 1 });
+    expect(JSON.parse(exportSession(history, "s1", "json"))).toEqual(document);
+  });
+
+  it("should render Markdown grouped by phase", () => {
+    const markdown = renderMarkdown(history, "s1");
+
+    expect(markdown).toContain("# Thinking session `s1`");
+    expect(markdown).toContain("- **Steps:** 5 (2 thinking, 2 tool calls, 1 analysis)");
+    expect(markdown).toContain("- **Branches:** `alt` from step 2 of `main`");
+    expect(
+      markdown.split("\n").filter((line) => line.startsWith("## "))
+    ).toEqual([
+      "## Thinking (step 1)",
+      "## Tool calls (step 2)",
+      "## Analysis (step 3)",
+      "## Tool calls (step 3)",
+      "## Thinking (step 4)",
+    ]);
+    expect(markdown).toContain("### Step 1 · superseded");
+    expect(markdown).toContain("### Step 3 · branch `alt` from step 2");
+    expect(markdown).toContain("### Step 4 · ✏️ revises step 1");
+    expect(markdown).toContain('```json\n{\n  "query": "retry"\n}\n```');
+    expect(markdown).toContain("**Tool call `fetch`** failed with ToolExecutionError");
+  });
+
+  it("should truncate long results and keep code fences intact", async () => {
+    server.registerToolExecutor("dump", () => "```code```" + "x".repeat(100));
+    await server.processStep({
+      sessionId: "s2",
+      thought: "Dump",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+      toolCall: { toolName: "dump", parameters: {} },
+    });
+
+    const markdown = renderMarkdown(server.getHistory("s2"), "s2", { maxResultLength: 20 });
+    expect(markdown).toContain("````\n```code```xxxxxxxxxx…(90 more bytes)\n````");
+  });
+
+  it("should render the step graph as a Mermaid flowchart", () => {
+    const lines = renderMermaid(history, "s1").trim().split("\n");
+
+    expect(lines[0]).toBe("flowchart TD");
+    expect(lines).toContain('  s1["1 · Plan the search."]');
+    expect(lines).toContain('  s2{{"2 · search"}}');
+    expect(lines).toContain('  s3("3 · Found the docs.")');
+    expect(lines).toContain('  subgraph branch1["Branch alt"]');
+    expect(lines).toContain('    s4{{"3 · fetch ✗"}}');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "  s1 --> s2",
+        "  s2 --> s3",
+        '  s2 -->|"alt"| s4',
+        "  s3 --> s5",
+        "  s5 -.->|revises| s1",
+        "  class s1 superseded",
+      ])
+    );
+    expect(renderMermaid(server.getHistory("empty"), "empty")).toContain('empty["No steps');
+  });
+
+  it("should give steps of unknown branches a node and escape entities", () => {
+    const orphan = {
+      thought: "Use #quot;quotes#quot; & <tags>",
+      stepNumber: 5,
+      totalSteps: 5,
+      nextStepNeeded: false,
+      phase: "thinking" as const,
+      branchId: "ghost",
+    };
+    const lines = renderMermaid({ ...history, steps: [...history.steps, orphan] }, "s1")
+      .trim()
+      .split("\n");
+
+    expect(lines).toContain('  subgraph branch2["Branch ghost (unknown)"]');
+    expect(lines).toContain('    s6["5 · Use #35;quot;quotes#35;quot; & #lt;tags#gt;"]');
+  });
+
+  it("should export a persisted session", () => {
+    const text = exportPersistedSession(dir, "s1", "json");
+    expect(JSON.parse(text)).toEqual(buildSessionExport(history, "s1"));
+
+    expect(() => exportPersistedSession(dir, "missing", "json")).toThrow(
+      'No persisted session "missing"'
+    );
+    expect(() => exportPersistedSession(join(dir, "nope"), "s1", "json")).toThrow(
+      "does not exist"
+    );
+  });
+});
@@ -0,0 +1,10 @@
+export default function echo(parameters) {
+  return { echoed: parameters };
+}
+
+export const upper = {
+  description: "Upper-case the text parameter",
+  async execute(parameters) {
+    return String(parameters.text).toUpperCase();
+  },
+};
@@ -0,0 +1,27 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+
+export function createStubServer() {
+  const server = new McpServer({ name: "stub", version: "1.0.0" });
+
+  server.registerTool(
+    "echo",
+    {
+      inputSchema: { text: z.string() },
+      annotations: { readOnlyHint: true, idempotentHint: true },
+    },
+    async ({ text }) => ({ content: [{ type: "text", text }] })
+  );
+
+  server.registerTool("fail", { inputSchema: {} }, async () => ({
+    content: [{ type: "text", text: "stub failure" }],
+    isError: true,
+  }));
+
+  return server;
+}
+
+if (process.argv[2] === "--stdio") {
+  await createStubServer().connect(new StdioServerTransport());
+}
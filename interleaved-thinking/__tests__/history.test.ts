@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { condenseThought, filterHistory, summarizeHistory } from "../history.js";
+import { InterleavedThinkingServer, StepHistory } from "../lib.js";
+
+describe("History queries", () => {
+  let history: StepHistory;
+
+  beforeEach(async () => {
+    const server = new InterleavedThinkingServer({
+      disableLogging: true,
+      executors: {
+        search: () => ["hit"],
+        fetch: () => {
+          throw new Error("offline");
+        },
+      },
+    });
+    const steps = [
+      { thought: "Plan the search. Then fetch.", stepNumber: 1 },
+      { thought: "Search", stepNumber: 2, toolCall: { toolName: "search", parameters: {} } },
+      { thought: "One hit found.", stepNumber: 3 },
+      { thought: "Fetch", stepNumber: 4, toolCall: { toolName: "fetch", parameters: {} } },
+      {
+        thought: "Retry via branch",
+        stepNumber: 5,
+        phase: "thinking" as const,
+        branchFromStep: 3,
+        branchId: "b",
+      },
+      {
+        thought: "Plan was wrong.",
+        stepNumber: 6,
+        phase: "thinking" as const,
+        isRevision: true,
+        revisesStep: 1,
+      },
+    ];
+    for (const step of steps) {
+      await server.processStep({ totalSteps: 6, nextStepNeeded: true, ...step });
+    }
+    history = server.getHistory();
+  });
+
+  it("should filter by phase, branch, range and tool", () => {
+    expect(filterHistory(history, { phase: "analysis" }).steps.map((s) => s.stepNumber)).toEqual([3]);
+    expect(filterHistory(history, { branchId: "b" }).steps.map((s) => s.stepNumber)).toEqual([5]);
+    expect(filterHistory(history, { fromStep: 2, toStep: 3 }).toolCalls).toHaveLength(1);
+
+    const fetches = filterHistory(history, { toolName: "fetch" });
+    expect(fetches.steps.map((s) => s.stepNumber)).toEqual([4]);
+    expect(fetches.toolCalls.map((r) => r.toolCall.toolName)).toEqual(["fetch"]);
+  });
+
+  it("should match main-line steps and tool calls on the same branch", async () => {
+    const server = new InterleavedThinkingServer({
+      disableLogging: true,
+      executors: { search: () => ["hit"], fetch: () => "page" },
+    });
+    const steps = [
+      { thought: "Plan", stepNumber: 1 },
+      { thought: "Search", stepNumber: 2, toolCall: { toolName: "search", parameters: {} } },
+      {
+        thought: "Fetch instead",
+        stepNumber: 2,
+        branchFromStep: 1,
+        branchId: "alt",
+        toolCall: { toolName: "fetch", parameters: {} },
+      },
+    ];
+    for (const step of steps) {
+      await server.processStep({ totalSteps: 2, nextStepNeeded: true, ...step });
+    }
+    const branched = server.getHistory();
+
+    expect(filterHistory(branched, { branchId: "main" }).steps.map((s) => s.thought)).toEqual([
+      "Plan",
+      "Search",
+    ]);
+    const searches = filterHistory(branched, { toolName: "search" });
+    expect(searches.steps.map((s) => s.thought)).toEqual(["Search"]);
+    expect(searches.toolCalls.map((r) => r.toolCall.toolName)).toEqual(["search"]);
+    const fetches = filterHistory(branched, { branchId: "alt", toolName: "fetch" });
+    expect(fetches.steps.map((s) => s.thought)).toEqual(["Fetch instead"]);
+    expect(fetches.toolCalls.map((r) => r.branchId)).toEqual(["alt"]);
+  });
+
+  it("should summarize conclusions, revisions, branches and tool outcomes", () => {
+    const summary = summarizeHistory(history);
+
+    expect(summary.phases).toEqual({ thinking: 3, tool_call: 2, analysis: 1 });
+    expect(summary.outline[0].summary).toBe("Plan the search.");
+    expect(summary.conclusions.map((c) => c.stepNumber)).toEqual([3]);
+    expect(summary.revisions).toEqual([
+      { stepNumber: 6, revisesStep: 1, summary: "Plan was wrong." },
+    ]);
+    expect(summary.branches).toEqual([{ branchId: "b", fromStep: 3, steps: [5] }]);
+    expect(summary.toolOutcomes.map((t) => [t.toolName, t.success, t.error])).toEqual([
+      ["search", true, undefined],
+      ["fetch", false, "offline"],
+    ]);
+  });
+
+  it("should condense long thoughts", () => {
+    const condensed = condenseThought("x".repeat(500));
+    expect(condensed).toHaveLength(160);
+    expect(condensed.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { request } from "node:http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { getAllowedHosts, McpHttpServer, HttpServerOptions } from "../http.js";
+import { InterleavedThinkingServer } from "../lib.js";
+import { createMcpServer } from "../server.js";
+
+describe("McpHttpServer", () => {
+  let thinkingServer: InterleavedThinkingServer;
+  let httpServer: McpHttpServer;
+  let url: string;
+  const clients: Client[] = [];
+
+  async function start(options: Partial<HttpServerOptions> = {}) {
+    thinkingServer = new InterleavedThinkingServer({ disableLogging: true });
+    httpServer = new McpHttpServer(() => createMcpServer(thinkingServer), {
+      host: "127.0.0.1",
+      port: 0,
+      ...options,
+    });
+    url = await httpServer.listen();
+  }
+
+  async function connect(headers: Record<string, string> = {}) {
+    const transport = new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: { headers },
+    });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await httpServer.close();
+  });
+
+  it("should report health without auth", async () => {
+    await start({ authToken: "secret" });
+
+    const response = await fetch(new URL("/health", url));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("should map each connection to its own thinking session", async () => {
+    await start();
+    const first = await connect();
+    const second = await connect();
+    const step = {
+      thought: "Start",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    };
+
+    await first.client.callTool({ name: "interleaved-thinking", arguments: step });
+    await second.client.callTool({ name: "interleaved-thinking", arguments: step });
+    await first.client.callTool({
+      name: "interleaved-thinking",
+      arguments: { ...step, stepNumber: 2, totalSteps: 2 },
+    });
+
+    expect(httpServer.sessionCount).toBe(2);
+    expect(thinkingServer.getHistory(first.transport.sessionId!).steps).toHaveLength(2);
+    expect(thinkingServer.getHistory(second.transport.sessionId!).steps).toHaveLength(1);
+    expect(thinkingServer.getHistory().steps).toHaveLength(0);
+  });
+
+  it("should require the bearer token when configured", async () => {
+    await start({ authToken: "secret" });
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer wrong" },
+      body: "{}",
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("Bearer");
+
+    const { client } = await connect({ Authorization: "Bearer secret" });
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("interleaved-thinking");
+  });
+
+  it("should reject foreign Host and Origin headers", async () => {
+    await start();
+    const initialize = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-06-18",
+        capabilities: {},
+        clientInfo: { name: "page", version: "1.0.0" },
+      },
+    });
+    const post = (headers: Record<string, string>) =>
+      new Promise<number>((resolve, reject) => {
+        const req = request(
+          url,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "application/json, text/event-stream",
+              ...headers,
+            },
+          },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode!);
+          }
+        );
+        req.on("error", reject);
+        req.end(initialize);
+      });
+
+    expect(await post({ Origin: "http://attacker.example" })).toBe(403);
+    expect(await post({ Host: `attacker.example:${new URL(url).port}` })).toBe(403);
+    expect(httpServer.sessionCount).toBe(0);
+
+    expect(await post({ Origin: `http://localhost:${new URL(url).port}` })).toBe(200);
+    expect(httpServer.sessionCount).toBe(1);
+  });
+
+  it("should derive the allowed hosts from the listen host", () => {
+    const options = { port: 0 };
+    expect(getAllowedHosts({ ...options, host: "::1" })).toEqual([
+      "localhost",
+      "127.0.0.1",
+      "[::1]",
+    ]);
+    expect(getAllowedHosts({ ...options, host: "10.0.0.5" })).toEqual(["10.0.0.5"]);
+    expect(getAllowedHosts({ ...options, host: "0.0.0.0" })).toBeUndefined();
+    expect(
+      getAllowedHosts({ ...options, host: "0.0.0.0", allowedHosts: ["mcp.example:8080"] })
+    ).toEqual(["mcp.example"]);
+  });
+
+  it("should reject requests without a valid session", async () => {
+    await start();
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "unknown",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+
+    const malformed = await fetch(url, { method: "POST", body: "{" });
+    expect(malformed.status).toBe(400);
+  });
+
+  it("should drop the thinking session when a connection ends", async () => {
+    await start();
+    const { client, transport } = await connect();
+    await client.callTool({
+      name: "interleaved-thinking",
+      arguments: { thought: "Start", stepNumber: 1, totalSteps: 1, nextStepNeeded: false },
+    });
+    const ids = () => thinkingServer.listSessions().map((session) => session.id);
+    expect(ids()).toContain(transport.sessionId);
+
+    await transport.terminateSession();
+    expect(httpServer.sessionCount).toBe(0);
+    expect(ids()).not.toContain(transport.sessionId);
+  });
+
+  it("should close idle sessions", async () => {
+    await start({ idleTimeout: 20 });
+    await connect();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it("should close all sessions on shutdown", async () => {
+    await start();
+    await connect();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await httpServer.close();
+    expect(httpServer.sessionCount).toBe(0);
+    await expect(fetch(new URL("/health", url))).rejects.toThrow();
+  });
+});
@@ -1,10 +1,12 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   InterleavedThinkingServer,
   ToolCallManager,
   StateManager,
   Logger,
+  ToolProgressEvent,
 } from "../lib.js";
+import { TimeoutError, ValidationError } from "../errors.js";
 
 describe("InterleavedThinkingServer", () => {
   let server: InterleavedThinkingServer;
@@ -12,6 +14,9 @@ describe("InterleavedThinkingServer", () => {
   beforeEach(() => {
     server = new InterleavedThinkingServer({
       disableLogging: true,
+      executors: {
+        test_tool: (parameters) => ({ echoed: parameters }),
+      },
     });
   });
 
@@ -57,6 +62,74 @@ describe("InterleavedThinkingServer", () => {
       expect(data.toolResult.success).toBe(true);
     });
 
+    it("should record the executor output in history", async () => {
+      await server.processStep({
+        thought: "Calling a tool",
+        stepNumber: 1,
+        totalSteps: 2,
+        nextStepNeeded: true,
+        toolCall: {
+          toolName: "test_tool",
+          parameters: { key: "value" },
+        },
+      });
+
+      const history = server.getHistory();
+      expect(history.toolCalls[0].result.result).toEqual({
+        echoed: { key: "value" },
+      });
+    });
+
+    it("should execute a batch of toolCalls and return all results", async () => {
+      const result = await server.processStep({
+        thought: "Fan out",
+        stepNumber: 1,
+        totalSteps: 2,
+        nextStepNeeded: true,
+        toolCalls: [
+          { toolName: "test_tool", parameters: { n: 1 } },
+          { toolName: "missing_tool", parameters: {} },
+          { toolName: "test_tool", parameters: { n: 2 }, metadata: { priority: "high" } },
+        ],
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.phase).toBe("tool_call");
+      expect(data.toolResults.map((r: any) => [r.toolName, r.success])).toEqual([
+        ["test_tool", true],
+        ["missing_tool", false],
+        ["test_tool", true],
+      ]);
+
+      const history = server.getHistory();
+      expect(history.toolCalls).toHaveLength(3);
+      expect(history.steps[0].toolResults?.[2].result).toEqual({
+        echoed: { n: 2 },
+      });
+    });
+
+    it("should report unknown tools as failed tool calls", async () => {
+      const result = await server.processStep({
+        thought: "Calling a missing tool",
+        stepNumber: 1,
+        totalSteps: 2,
+        nextStepNeeded: true,
+        toolCall: {
+          toolName: "missing_tool",
+          parameters: {},
+        },
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.toolResult.success).toBe(false);
+
+      const history = server.getHistory();
+      expect(history.toolCalls[0].result.error?.type).toBe("ToolNotFoundError");
+      expect(history.toolCalls[0].result.error?.recoveryStrategy).toContain(
+        "test_tool"
+      );
+    });
+
     it("should process an analysis step", async () => {
       // First do a tool call
       await server.processStep({
@@ -88,6 +161,114 @@ describe("InterleavedThinkingServer", () => {
     });
   });
 
+  describe("Tool results in responses", () => {
+    const callStep = (toolName: string, parameters = {}) => ({
+      thought: "Calling a tool",
+      stepNumber: 1,
+      totalSteps: 2,
+      nextStepNeeded: true,
+      toolCall: { toolName, parameters },
+    });
+
+    it("should return the tool output to the model", async () => {
+      const result = await server.processStep(callStep("test_tool", { q: 1 }));
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.toolResult).toMatchObject({
+        toolName: "test_tool",
+        success: true,
+        result: { echoed: { q: 1 } },
+        attempts: 1,
+      });
+    });
+
+    it("should return errors with their recovery strategy", async () => {
+      const result = await server.processStep(callStep("missing_tool"));
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.toolResult.error.type).toBe("ToolNotFoundError");
+      expect(data.toolResult.error.recoveryStrategy).toContain("test_tool");
+    });
+
+    it("should truncate large payloads", async () => {
+      const small = new InterleavedThinkingServer({
+        disableLogging: true,
+        maxResultSize: 20,
+        executors: { big: () => "x".repeat(100) },
+      });
+
+      const result = await small.processStep(callStep("big"));
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.toolResult.result).toBe(`${"x".repeat(20)}…`);
+      expect(data.toolResult.truncated).toBe(true);
+      expect(data.toolResult.originalSize).toBe(100);
+      // History keeps the full result
+      expect(small.getHistory().toolCalls[0].result.result).toHaveLength(100);
+    });
+
+    it("should echo the analyzed result in the analysis phase", async () => {
+      await server.processStep(callStep("test_tool", { q: 2 }));
+      const result = await server.processStep({
+        thought: "Analyzing",
+        stepNumber: 2,
+        totalSteps: 2,
+        nextStepNeeded: false,
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.phase).toBe("analysis");
+      expect(data.analyzedToolCall).toEqual({
+        stepNumber: 1,
+        toolName: "test_tool",
+        parameters: { q: 2 },
+      });
+      expect(data.toolResult.result).toEqual({ echoed: { q: 2 } });
+    });
+  });
+
+  describe("Revisions", () => {
+    it("should report the revision version in the response", async () => {
+      await server.processStep({
+        thought: "First idea",
+        stepNumber: 1,
+        totalSteps: 3,
+        nextStepNeeded: true,
+      });
+      const result = await server.processStep({
+        thought: "Better idea",
+        stepNumber: 2,
+        totalSteps: 3,
+        nextStepNeeded: true,
+        isRevision: true,
+        revisesStep: 1,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.revision).toEqual({ revisesStep: 1, version: 1 });
+      expect(server.getHistory().revisions[1].current.thought).toBe("Better idea");
+    });
+
+    it("should reject revisions of unknown steps before running tools", async () => {
+      let calls = 0;
+      server.registerToolExecutor("counted", () => ++calls);
+
+      const result = await server.processStep({
+        thought: "Revise a missing step",
+        stepNumber: 1,
+        totalSteps: 1,
+        nextStepNeeded: false,
+        isRevision: true,
+        revisesStep: 4,
+        toolCall: { toolName: "counted", parameters: {} },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.type).toBe("ValidationError");
+      expect(calls).toBe(0);
+    });
+  });
+
   describe("Step number adjustment", () => {
     it("should auto-adjust totalSteps if stepNumber exceeds it", async () => {
       const input = {
@@ -132,6 +313,160 @@ describe("InterleavedThinkingServer", () => {
     });
   });
 
+  describe("Sessions", () => {
+    const step = (sessionId: string, stepNumber: number) => ({
+      sessionId,
+      thought: `${sessionId} step ${stepNumber}`,
+      stepNumber,
+      totalSteps: 3,
+      nextStepNeeded: true,
+    });
+
+    it("should keep histories of different sessions apart", async () => {
+      await server.processStep(step("alice", 1));
+      await server.processStep(step("bob", 1));
+      const result = await server.processStep(step("alice", 2));
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.sessionId).toBe("alice");
+      expect(data.stepHistoryLength).toBe(2);
+      expect(server.getHistory("bob").steps).toHaveLength(1);
+      expect(server.getHistory().steps).toHaveLength(0);
+    });
+
+    it("should keep tool-call budgets per session", async () => {
+      const limited = new InterleavedThinkingServer({
+        disableLogging: true,
+        maxToolCalls: 1,
+        executors: { test_tool: () => "ok" },
+      });
+      const callStep = (sessionId: string) => ({
+        ...step(sessionId, 1),
+        toolCall: { toolName: "test_tool", parameters: {} },
+      });
+
+      expect((await limited.processStep(callStep("a"))).isError).toBeUndefined();
+      expect((await limited.processStep(callStep("b"))).isError).toBeUndefined();
+
+      const result = await limited.processStep(callStep("a"));
+      const data = JSON.parse(result.content[0].text);
+      expect(data.toolResult.error.type).toBe("BudgetExceededError");
+      expect(data.budget.toolCalls).toEqual({ used: 1, limit: 1, remaining: 0 });
+    });
+
+    it("should apply budgets of individual sessions", async () => {
+      const budgeted = new InterleavedThinkingServer({
+        disableLogging: true,
+        budget: { toolLimits: { test_tool: 2 } },
+        sessionBudgets: { a: { toolLimits: { test_tool: 1 } } },
+        executors: { test_tool: () => "ok" },
+      });
+      const callStep = (sessionId: string) => ({
+        ...step(sessionId, 1),
+        toolCall: { toolName: "test_tool", parameters: {} },
+      });
+      const budgetOf = async (sessionId: string) =>
+        JSON.parse((await budgeted.processStep(callStep(sessionId))).content[0].text)
+          .budget;
+
+      expect((await budgetOf("a")).tools.test_tool.remaining).toBe(0);
+      expect((await budgetOf("b")).tools.test_tool.remaining).toBe(1);
+
+      budgeted.setSessionBudget("a", { toolLimits: { test_tool: 3 } });
+      expect((await budgetOf("a")).tools.test_tool).toEqual({
+        used: 2,
+        limit: 3,
+        remaining: 1,
+      });
+    });
+
+    it("should reset a single session or all sessions", async () => {
+      await server.processStep(step("alice", 1));
+      await server.processStep(step("bob", 1));
+
+      server.reset("alice");
+      expect(server.listSessions().map((s) => s.id)).toEqual(["bob"]);
+
+      server.reset();
+      expect(server.listSessions()).toEqual([]);
+    });
+
+    it("should cancel tool calls of a session that is reset", async () => {
+      let started!: () => void;
+      const running = new Promise<void>((resolve) => (started = resolve));
+      server.registerToolExecutor("hang", () => {
+        started();
+        return new Promise(() => {});
+      });
+
+      const pending = server.processStep({
+        ...step("alice", 1),
+        toolCall: { toolName: "hang", parameters: {} },
+      });
+      await running;
+      server.reset("alice");
+
+      const result = await pending;
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.type).toBe("CancelledError");
+      expect(server.getHistory("alice").toolCalls).toEqual([]);
+    });
+
+    it("should record cancelled steps before close resolves", async () => {
+      let started!: () => void;
+      const running = new Promise<void>((resolve) => (started = resolve));
+      server.registerToolExecutor("hang", () => {
+        started();
+        return new Promise(() => {});
+      });
+
+      void server.processStep({
+        ...step("alice", 1),
+        toolCall: { toolName: "hang", parameters: {} },
+      });
+      await running;
+      await server.close();
+
+      const [record] = server.getHistory("alice").toolCalls;
+      expect(record.result.error?.type).toBe("CancelledError");
+    });
+
+    it("should not evict a session while its tool calls run", async () => {
+      const expiring = new InterleavedThinkingServer({
+        disableLogging: true,
+        sessionTtl: 50,
+        executors: {
+          slow: () => new Promise((resolve) => setTimeout(() => resolve("done"), 200)),
+        },
+      });
+
+      const pending = expiring.processStep({
+        ...step("a", 1),
+        toolCall: { toolName: "slow", parameters: {} },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await expiring.processStep(step("b", 1));
+
+      const result = await pending;
+      expect(result.isError).toBeUndefined();
+      expect(expiring.getHistory("a").toolCalls[0].result.result).toBe("done");
+    });
+
+    it("should report a SessionLimitError when the cap is reached", async () => {
+      const capped = new InterleavedThinkingServer({
+        disableLogging: true,
+        maxSessions: 1,
+      });
+      await capped.processStep(step("a", 1));
+
+      const result = await capped.processStep(step("b", 1));
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.type).toBe(
+        "SessionLimitError"
+      );
+    });
+  });
+
   describe("Error handling", () => {
     it("should auto-infer phase when not provided", async () => {
       const input = {
@@ -251,6 +586,9 @@ describe("ToolCallManager", () => {
       defaultTimeout: 1000,
       enableCache: true,
     });
+    for (const name of ["test_tool", "tool1", "tool2", "tool3", "tool4"]) {
+      manager.registerExecutor(name, { cacheable: true, execute: async () => ({ ok: true }) });
+    }
   });
 
   it("should execute tool calls", async () => {
@@ -270,17 +608,351 @@ describe("ToolCallManager", () => {
 
     expect(manager.canExecuteToolCall()).toBe(false);
 
-    await expect(
-      manager.executeToolCall({ toolName: "tool4", parameters: {} })
-    ).rejects.toThrow("Tool call limit reached");
+    const result = await manager.executeToolCall({ toolName: "tool4", parameters: {} });
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("BudgetExceededError");
+    expect(result.error?.message).toContain("Tool call limit reached");
+  });
+
+  it("should return a ToolNotFoundError for unregistered tools", async () => {
+    const result = await manager.executeToolCall({
+      toolName: "unknown",
+      parameters: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("ToolNotFoundError");
+    expect(result.error?.recoveryStrategy).toContain("tool1");
+  });
+
+  it("should report executor errors", async () => {
+    manager.registerExecutor("failing", () => {
+      throw new Error("boom");
+    });
+
+    const result = await manager.executeToolCall({
+      toolName: "failing",
+      parameters: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("ToolExecutionError");
+    expect(result.error?.message).toBe("boom");
+  });
+
+  it("should time out slow executors", async () => {
+    manager.registerExecutor("slow", () => new Promise(() => {}));
+
+    const result = await manager.executeToolCall({
+      toolName: "slow",
+      parameters: {},
+      metadata: { timeout: 20 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("TimeoutError");
+  });
+
+  it("should report progress from queued to completed", async () => {
+    manager.registerExecutor("download", async (_, context) => {
+      context.reportProgress(1, 2);
+      context.reportProgress(2, 2, "almost done");
+      throw new Error("flaky");
+    });
+
+    const events: ToolProgressEvent[] = [];
+    await manager.executeToolCall(
+      { toolName: "download", parameters: {}, metadata: { retryCount: 1 } },
+      { onProgress: (event) => events.push(event) }
+    );
+
+    expect(events.map((event) => event.message)).toEqual([
+      "download: queued",
+      "download: started",
+      "download: 1/2",
+      "download: almost done",
+      "download: retry 1 of 1",
+      "download: 1/2",
+      "download: almost done",
+      "download: failed with ToolExecutionError",
+    ]);
+    expect(events[2]).toMatchObject({ stage: "progress", progress: 1, total: 2 });
+  });
+
+  describe("Cancellation", () => {
+    // Resolves with the executor's signal once the call is running
+    const registerHangingTool = () =>
+      new Promise<AbortSignal>((started) => {
+        manager.registerExecutor("hang", (_, context) => {
+          started(context.signal);
+          return new Promise(() => {});
+        });
+      });
+
+    it("should abort the executor signal on timeout and clear the timer", async () => {
+      vi.useFakeTimers();
+      try {
+        const started = registerHangingTool();
+        const pending = manager.executeToolCall({
+          toolName: "hang",
+          parameters: {},
+          metadata: { timeout: 50 },
+        });
+        const signal = await started;
+
+        await vi.advanceTimersByTimeAsync(50);
+        expect(signal.reason).toBeInstanceOf(TimeoutError);
+        expect((await pending).error?.type).toBe("TimeoutError");
+        expect(vi.getTimerCount()).toBe(0);
+
+        await manager.executeToolCall({ toolName: "tool1", parameters: {} });
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should cancel running calls without affecting later ones", async () => {
+      const started = registerHangingTool();
+      const pending = manager.executeToolCall({
+        toolName: "hang",
+        parameters: {},
+        metadata: { retryCount: 2 },
+      });
+      const signal = await started;
+
+      manager.cancel("Stop");
+      const result = await pending;
+      expect(signal.aborted).toBe(true);
+      expect(result.error).toMatchObject({ type: "CancelledError", message: "Stop" });
+      expect(result.attempts).toHaveLength(1);
+
+      const next = await manager.executeToolCall({ toolName: "tool1", parameters: {} });
+      expect(next.success).toBe(true);
+    });
+
+    it("should cancel calls when the request signal aborts", async () => {
+      const controller = new AbortController();
+      const started = registerHangingTool();
+      const pending = manager.executeToolCall(
+        { toolName: "hang", parameters: {} },
+        { signal: controller.signal }
+      );
+      await started;
+
+      controller.abort("client cancelled");
+      expect((await pending).error?.type).toBe("CancelledError");
+    });
+  });
+
+  it("should run batches in parallel within the concurrency limit", async () => {
+    const parallel = new ToolCallManager({
+      maxToolCalls: 10,
+      defaultTimeout: 1000,
+      enableCache: false,
+      maxConcurrency: 2,
+    });
+    let running = 0;
+    let peak = 0;
+    parallel.registerExecutor("work", async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return "done";
+    });
+
+    const results = await parallel.executeToolCalls(
+      Array.from({ length: 5 }, (_, i) => ({ toolName: "work", parameters: { i } }))
+    );
+
+    expect(results).toHaveLength(5);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  it("should reject batches larger than the remaining budget", async () => {
+    const results = await manager.executeToolCalls([
+      { toolName: "tool1", parameters: {} },
+      { toolName: "tool2", parameters: {} },
+      { toolName: "tool3", parameters: {} },
+      { toolName: "tool4", parameters: {} },
+    ]);
+
+    expect(results.every((r) => r.error?.type === "BudgetExceededError")).toBe(true);
+    expect(manager.getBudget().toolCalls.used).toBe(0);
+  });
+
+  describe("Retries", () => {
+    let retrying: ToolCallManager;
+
+    beforeEach(() => {
+      retrying = new ToolCallManager({
+        maxToolCalls: 10,
+        defaultTimeout: 1000,
+        enableCache: false,
+        retry: { baseDelay: 1, maxDelay: 5, jitter: 0 },
+      });
+    });
+
+    it("should retry failed calls up to retryCount and record each attempt", async () => {
+      let calls = 0;
+      retrying.registerExecutor("flaky", () => {
+        calls++;
+        if (calls < 3) throw new Error(`failure ${calls}`);
+        return "ok";
+      });
+
+      const result = await retrying.executeToolCall({
+        toolName: "flaky",
+        parameters: {},
+        metadata: { retryCount: 3 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe("ok");
+      expect(result.attempts?.map((a) => a.success)).toEqual([false, false, true]);
+      expect(result.attempts?.[0].error?.message).toBe("failure 1");
+      expect(retrying.getStatistics().totalCalls).toBe(1);
+    });
+
+    it("should stop after retryCount retries", async () => {
+      retrying.registerExecutor("broken", () => {
+        throw new Error("always");
+      });
+
+      const result = await retrying.executeToolCall({
+        toolName: "broken",
+        parameters: {},
+        metadata: { retryCount: 2 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toHaveLength(3);
+    });
+
+    it("should cap retryCount at maxRetries", async () => {
+      const capped = new ToolCallManager({
+        maxToolCalls: 10,
+        defaultTimeout: 1000,
+        enableCache: false,
+        retry: { maxRetries: 2, baseDelay: 1, maxDelay: 5, jitter: 0 },
+      });
+      capped.registerExecutor("broken", () => {
+        throw new Error("always");
+      });
+
+      const result = await capped.executeToolCall({
+        toolName: "broken",
+        parameters: {},
+        metadata: { retryCount: 1000 },
+      });
+
+      expect(result.attempts).toHaveLength(3);
+    });
+
+    it("should retry timeouts", async () => {
+      let calls = 0;
+      retrying.registerExecutor("slow_once", () =>
+        ++calls === 1 ? new Promise(() => {}) : "done"
+      );
+
+      const result = await retrying.executeToolCall({
+        toolName: "slow_once",
+        parameters: {},
+        metadata: { timeout: 20, retryCount: 1 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.attempts?.[0].error?.type).toBe("TimeoutError");
+    });
+
+    it("should not retry validation errors", async () => {
+      let calls = 0;
+      retrying.registerExecutor("strict", () => {
+        calls++;
+        throw new ValidationError("path is required");
+      });
+
+      const result = await retrying.executeToolCall({
+        toolName: "strict",
+        parameters: {},
+        metadata: { retryCount: 3 },
+      });
+
+      expect(calls).toBe(1);
+      expect(result.error?.type).toBe("ValidationError");
+      expect(result.attempts).toHaveLength(1);
+    });
+  });
+
+  it("should mark cached results and refresh their timing", async () => {
+    const first = await manager.executeToolCall({
+      toolName: "tool1",
+      parameters: { a: 1, b: 2 },
+    });
+    const second = await manager.executeToolCall({
+      toolName: "tool1",
+      parameters: { b: 2, a: 1 },
+    });
+
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ cached: true, result: { ok: true } });
+    expect(second.attempts).toBeUndefined();
+    expect(second.timestamp >= first.timestamp).toBe(true);
+  });
+
+  it("should never cache tools marked as not cacheable", async () => {
+    let runs = 0;
+    manager.registerExecutor("send", {
+      cacheable: false,
+      execute: async () => ++runs,
+    });
+
+    await manager.executeToolCall({ toolName: "send", parameters: {} });
+    const second = await manager.executeToolCall({ toolName: "send", parameters: {} });
+
+    expect(second.result).toBe(2);
+    expect(second.cached).toBeUndefined();
+  });
+
+  it("should not cache tools that are not marked as cacheable", async () => {
+    let runs = 0;
+    manager.registerExecutor("send", () => ++runs);
+
+    await manager.executeToolCall({ toolName: "send", parameters: {} });
+    const second = await manager.executeToolCall({ toolName: "send", parameters: {} });
+
+    expect(second.result).toBe(2);
+    expect(second.cached).toBeUndefined();
+  });
+
+  it("should ask a namespace executor which of its tools are cacheable", async () => {
+    let runs = 0;
+    manager.registerNamespaceExecutor("remote", {
+      cacheable: async (toolName) => toolName === "remote.read",
+      execute: async (_, context) => `${context.toolName} ${++runs}`,
+    });
+
+    await manager.executeToolCall({ toolName: "remote.write", parameters: {} });
+    await manager.executeToolCall({ toolName: "remote.read", parameters: {} });
+    const cached = await manager.executeToolCall({ toolName: "remote.read", parameters: {} });
+
+    expect(runs).toBe(2);
+    expect(cached).toMatchObject({ cached: true, result: "remote.read 2" });
   });
 
   it("should provide statistics", async () => {
     await manager.executeToolCall({ toolName: "tool1", parameters: {} });
-    await manager.executeToolCall({ toolName: "tool2", parameters: {} });
+    await manager.executeToolCall({ toolName: "tool1", parameters: {} });
+    await manager.executeToolCall({ toolName: "missing", parameters: {} });
 
     const stats = manager.getStatistics();
-    expect(stats.totalCalls).toBe(2);
+    expect(stats.totalCalls).toBe(3);
+    expect(stats.successfulCalls).toBe(2);
+    expect(stats.failedCalls).toBe(1);
+    expect(stats.tools.tool1).toMatchObject({ calls: 2, cacheHits: 1 });
+    expect(stats.tools.missing.failedCalls).toBe(1);
   });
 });
 
@@ -307,6 +979,183 @@ describe("StateManager", () => {
     expect(history.steps[0].thought).toBe("Test");
   });
 
+  describe("Revisions", () => {
+    const step = (stepNumber: number, thought: string, revisesStep?: number) => ({
+      thought,
+      stepNumber,
+      totalSteps: 5,
+      nextStepNeeded: true,
+      phase: "thinking" as const,
+      ...(revisesStep !== undefined && { isRevision: true, revisesStep }),
+    });
+
+    it("should return the current effective version of a revised step", () => {
+      stateManager.addStep(step(1, "Original"));
+      stateManager.addStep(step(2, "Next"));
+      stateManager.addStep(step(1, "Corrected", 1));
+      stateManager.addStep(step(3, "Corrected again", 1));
+
+      expect(stateManager.getStep(1)?.thought).toBe("Corrected again");
+      expect(stateManager.getStepVersions(1).map((s) => s.thought)).toEqual([
+        "Original",
+        "Corrected",
+        "Corrected again",
+      ]);
+    });
+
+    it("should expose effective steps and superseded versions in history", () => {
+      stateManager.addStep(step(1, "Original"));
+      stateManager.addStep(step(2, "Next"));
+      stateManager.addStep(step(3, "Better first step", 1));
+
+      const history = stateManager.getHistory();
+      expect(history.steps).toHaveLength(3);
+      expect(history.effectiveSteps.map((s) => s.thought)).toEqual([
+        "Next",
+        "Better first step",
+      ]);
+      expect(history.revisions[1].current.thought).toBe("Better first step");
+      expect(history.revisions[1].superseded.map((s) => s.thought)).toEqual([
+        "Original",
+      ]);
+    });
+
+    it("should revise the step of the revising step's branch", () => {
+      stateManager.addStep(step(1, "Root"));
+      stateManager.addStep(step(2, "Fork point"));
+      stateManager.addStep(step(3, "Main three"));
+      stateManager.addStep({ ...step(3, "Branch three"), branchId: "a", branchFromStep: 2 });
+      stateManager.addStep(step(4, "Better main three", 3));
+      stateManager.addStep({ ...step(4, "Better first step", 1), branchId: "a" });
+
+      const history = stateManager.getHistory();
+      expect(history.effectiveSteps.map((s) => s.thought)).toEqual([
+        "Fork point",
+        "Branch three",
+        "Better main three",
+        "Better first step",
+      ]);
+      expect(stateManager.getStep(3, "main")?.thought).toBe("Better main three");
+      expect(stateManager.getStep(3, "a")?.thought).toBe("Branch three");
+      expect(stateManager.getStepVersions(1, "a").map((s) => s.thought)).toEqual([
+        "Root",
+        "Better first step",
+      ]);
+    });
+
+    it("should reject revisions of unknown steps", () => {
+      expect(() => stateManager.addStep(step(2, "Revise nothing", 7))).toThrow(
+        "revisesStep 7 does not reference an existing step"
+      );
+      expect(stateManager.getHistory().steps).toHaveLength(0);
+    });
+  });
+
+  describe("Branches", () => {
+    const step = (
+      stepNumber: number,
+      thought: string,
+      branch?: { branchId: string; branchFromStep?: number }
+    ) => ({
+      thought,
+      stepNumber,
+      totalSteps: 5,
+      nextStepNeeded: true,
+      phase: "thinking" as const,
+      ...branch,
+    });
+
+    beforeEach(() => {
+      stateManager.addStep(step(1, "Root"));
+      stateManager.addStep(step(2, "Option A", { branchId: "a", branchFromStep: 1 }));
+      stateManager.addStep(step(3, "Option A detail", { branchId: "a" }));
+      stateManager.addStep(step(3, "Option B", { branchId: "b", branchFromStep: 2 }));
+    });
+
+    it("should build a branch tree", () => {
+      const { branchTree, activeBranch } = stateManager.getHistory();
+
+      expect(activeBranch).toBe("main");
+      expect(branchTree.a).toMatchObject({ parentBranch: "main", forkStep: 1, status: "active" });
+      expect(branchTree.b).toMatchObject({ parentBranch: "a", forkStep: 2 });
+      expect(stateManager.getBranchSteps("a").map((s) => s.thought)).toEqual([
+        "Option A",
+        "Option A detail",
+      ]);
+    });
+
+    it("should add a step naming an unknown branch to the active branch", () => {
+      stateManager.addStep(step(2, "Main two", { branchId: "ghost" }));
+      stateManager.switchBranch("a");
+      stateManager.addStep(step(4, "A four", { branchId: "ghost" }));
+
+      const { steps, branchTree } = stateManager.getHistory();
+      expect(steps.find((s) => s.thought === "Main two")?.branchId).toBeUndefined();
+      expect(stateManager.getBranchSteps("a").map((s) => s.thought)).toContain("A four");
+      expect(stateManager.hasBranch("ghost")).toBe(false);
+      expect(Object.keys(branchTree)).toEqual(["a", "b"]);
+    });
+
+    it("should fork from the step of the branch the new branch is sent from", () => {
+      stateManager.addStep(step(2, "Main two"));
+      stateManager.addStep(step(3, "Main three"));
+      stateManager.addStep(step(4, "Main four"));
+      stateManager.addStep(step(4, "Option C", { branchId: "c", branchFromStep: 3 }));
+
+      expect(stateManager.getHistory().branchTree.c).toMatchObject({
+        parentBranch: "main",
+        forkStep: 3,
+      });
+      expect(stateManager.getPreviousStep(stateManager.getBranchSteps("c")[0])?.thought).toBe(
+        "Main three"
+      );
+      expect(stateManager.findForkPoint(3)?.step.thought).toBe("Main three");
+    });
+
+    it("should add unlabeled steps to the active branch", () => {
+      stateManager.switchBranch("b");
+      stateManager.addStep(step(4, "More B"));
+
+      expect(stateManager.getActiveBranch()).toBe("b");
+      expect(stateManager.getBranchSteps("b").map((s) => s.stepNumber)).toEqual([3, 4]);
+      expect(() => stateManager.switchBranch("missing")).toThrow(ValidationError);
+    });
+
+    it("should reject steps on abandoned branches", () => {
+      stateManager.switchBranch("b");
+      stateManager.abandonBranch("b");
+
+      expect(stateManager.getActiveBranch()).toBe("a");
+      expect(() => stateManager.addStep(step(4, "Dead end", { branchId: "b" }))).toThrow(
+        'Branch "b" is abandoned'
+      );
+    });
+
+    it("should merge a branch into its parent", () => {
+      stateManager.mergeBranch("b");
+
+      expect(stateManager.getHistory().branchTree.b).toMatchObject({
+        status: "merged",
+        mergedInto: "a",
+      });
+      expect(stateManager.getBranchSteps("a").map((s) => s.thought)).toEqual([
+        "Option A",
+        "Option A detail",
+        "Option B",
+      ]);
+      expect(() => stateManager.mergeBranch("b")).toThrow(ValidationError);
+    });
+
+    it("should compare two branches", () => {
+      const comparison = stateManager.compareBranches("b", "main");
+
+      expect(comparison.commonAncestor).toBe("main");
+      expect(comparison.left.steps.map((s) => s.thought)).toEqual(["Option B"]);
+      expect(comparison.right.steps.map((s) => s.thought)).toEqual(["Root"]);
+      expect(stateManager.compareBranches("a", "b").commonAncestor).toBe("a");
+    });
+  });
+
   it("should track tool calls", () => {
     const record = {
       stepNumber: 1,
@@ -0,0 +1,202 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import chalk from "chalk";
+import {
+  formatBox,
+  Logger,
+  LogSink,
+  REDACTED,
+  redact,
+  truncateText,
+  visibleWidth,
+} from "../logging.js";
+import { InterleavedThinkingServer } from "../lib.js";
+
+function memorySink(): LogSink & { lines: string[] } {
+  const lines: string[] = [];
+  return { lines, write: (line) => lines.push(line) };
+}
+
+describe("Logger", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it("should write JSON records with step and tool context", async () => {
+    const sink = memorySink();
+    const server = new InterleavedThinkingServer({
+      logging: { format: "json", sink },
+      executors: { lookup: () => "value" },
+    });
+
+    await server.processStep({
+      sessionId: "alice",
+      thought: "Look it up",
+      stepNumber: 1,
+      totalSteps: 2,
+      nextStepNeeded: true,
+      toolCall: { toolName: "lookup", parameters: { query: "x" } },
+    });
+
+    const records = sink.lines.map((line) => JSON.parse(line));
+    expect(records.map((record) => record.event)).toEqual(["tool_call", "tool_result"]);
+    expect(records[0]).toMatchObject({
+      level: "info",
+      sessionId: "alice",
+      stepNumber: 1,
+      branchId: "main",
+      phase: "tool_call",
+      toolName: "lookup",
+      parameters: { query: "x" },
+    });
+    expect(records[1]).toMatchObject({ success: true, toolName: "lookup" });
+    expect(typeof records[1].durationMs).toBe("number");
+  });
+
+  it("should redact configured keys at any depth", () => {
+    const keys = new Set(["apikey", "password"]);
+
+    expect(
+      redact({ query: "x", apiKey: "k", nested: [{ Password: "p", user: "u" }] }, keys)
+    ).toEqual({
+      query: "x",
+      apiKey: REDACTED,
+      nested: [{ Password: REDACTED, user: "u" }],
+    });
+
+    const sink = memorySink();
+    new Logger({ format: "json", sink, redactKeys: ["apiKey"] }).logToolCall({
+      toolName: "search",
+      parameters: { apiKey: "secret" },
+    });
+    expect(sink.lines[0]).not.toContain("secret");
+  });
+
+  it("should drop records below the level", () => {
+    const sink = memorySink();
+    const logger = new Logger({ format: "json", level: "warn", sink });
+    const result = { toolName: "t", executionTime: 1, timestamp: "" };
+
+    logger.logToolResult({ ...result, success: true });
+    logger.logToolResult({
+      ...result,
+      success: false,
+      error: { type: "TimeoutError", message: "too slow" },
+    });
+
+    expect(sink.lines).toHaveLength(1);
+    expect(JSON.parse(sink.lines[0])).toMatchObject({
+      level: "warn",
+      errorType: "TimeoutError",
+    });
+  });
+
+  it("should append to a log file", () => {
+    dir = mkdtempSync(join(tmpdir(), "logs-"));
+    const file = join(dir, "nested", "thinking.log");
+    const logger = new Logger({ format: "json", file });
+
+    logger.logThinkingStep({
+      thought: "Plan",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    });
+
+    const lines = readFileSync(file, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      event: "thinking",
+      message: "Plan",
+      phase: "thinking",
+    });
+  });
+
+  it("should keep the pretty box format and honour disabling", () => {
+    const sink = memorySink();
+    new Logger({ sink }).logThinkingStep({
+      thought: "Plan",
+      stepNumber: 1,
+      totalSteps: 3,
+      nextStepNeeded: true,
+    });
+    expect(sink.lines[0]).toContain("Thinking");
+    expect(sink.lines[0]).toContain("│ Plan");
+
+    new Logger({ sink, disabled: true }).logToolCall({ toolName: "t", parameters: {} });
+    expect(sink.lines).toHaveLength(1);
+  });
+});
+
+describe("formatBox", () => {
+  const rows = (box: string) => box.split("\n").slice(1);
+
+  it("should measure visible width without ANSI codes and with wide characters", () => {
+    expect(visibleWidth(chalk.red("abc"))).toBe(3);
+    expect(visibleWidth("思考")).toBe(4);
+    expect(visibleWidth("✅ ok")).toBe(5);
+    expect(visibleWidth("e\u0301")).toBe(1);
+  });
+
+  it("should render embedded newlines as separate rows", () => {
+    const box = formatBox("Header", "first line\nsecond line", 80);
+
+    expect(rows(box)).toEqual([
+      "┌─────────────┐",
+      "│ Header      │",
+      "├─────────────┤",
+      "│ first line  │",
+      "│ second line │",
+      "└─────────────┘",
+    ]);
+  });
+
+  it("should wrap long lines to the width, at spaces where possible", () => {
+    const box = formatBox("Header", `${"word ".repeat(20)}${"x".repeat(50)}`, 30);
+
+    for (const row of rows(box)) {
+      expect(visibleWidth(row)).toBe(30);
+    }
+    expect(rows(box)[3]).toBe("│ word word word word word   │");
+  });
+
+  it("should close and reopen colors across wrapped lines", () => {
+    const red = (text: string) => `\u001b[31m${text}\u001b[39m`;
+    const box = formatBox(red(`Error ${"word ".repeat(8)}end`), "x", 30);
+    const headerRows = rows(box).slice(1, 3);
+
+    expect(headerRows).toEqual([
+      "│ \u001b[31mError word word word word\u001b[0m │",
+      "│ \u001b[31mword word word word end\u001b[39m   │",
+    ]);
+  });
+
+  it("should align rows with colored headers and CJK text", () => {
+    const box = formatBox(chalk.blue("💭 Thinking"), "分析结果", 80);
+    const widths = rows(box).map(visibleWidth);
+
+    expect(new Set(widths).size).toBe(1);
+  });
+
+  it("should truncate long text with the number of cut bytes", () => {
+    expect(truncateText("short", 10)).toBe("short");
+    expect(truncateText("abcdefghij", 4)).toBe("abcd…(6 more bytes)");
+
+    const sink = memorySink();
+    new Logger({ sink, maxResultLength: 10 }).logToolResult({
+      toolName: "t",
+      success: true,
+      result: "x".repeat(100),
+      executionTime: 1,
+      timestamp: "",
+    });
+    expect(sink.lines[0]).toContain("more bytes)");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { InterleavedThinkingServer } from "../lib.js";
+import { createMcpServer } from "../server.js";
+
+describe("forwardLogNotifications", () => {
+  let client: Client;
+  let messages: LoggingMessageNotification["params"][];
+
+  async function connect(thinkingServer: InterleavedThinkingServer) {
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    messages = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      createMcpServer(thinkingServer).connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  }
+
+  const callStep = (toolName: string) =>
+    client.callTool({
+      name: "interleaved-thinking",
+      arguments: {
+        thought: "Check",
+        stepNumber: 1,
+        totalSteps: 1,
+        nextStepNeeded: false,
+        toolCall: { toolName, parameters: {} },
+      },
+    });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await client.close();
+  });
+
+  it("should send records as log notifications instead of writing to stderr", async () => {
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+    const thinkingServer = new InterleavedThinkingServer({
+      executors: {
+        fail: () => {
+          throw new Error("boom");
+        },
+      },
+    });
+    await connect(thinkingServer);
+
+    await callStep("fail");
+
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+    expect(messages.map((message) => message.level)).toEqual(["info", "warning"]);
+    expect(messages[0]).toMatchObject({
+      logger: "interleaved-thinking",
+      data: { event: "tool_call", toolName: "fail", sessionId: "default" },
+    });
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  it("should honour the level set by the client", async () => {
+    await connect(new InterleavedThinkingServer({ executors: { ok: () => "fine" } }));
+
+    await client.setLoggingLevel("warning");
+    await callStep("ok");
+
+    expect(messages).toEqual([]);
+  });
+
+  it("should fall back to stderr once the client is gone", async () => {
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+    const thinkingServer = new InterleavedThinkingServer();
+    await connect(thinkingServer);
+    await client.close();
+
+    await thinkingServer.processStep({
+      thought: "Alone",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    });
+
+    expect(messages).toEqual([]);
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(stderr.mock.calls[0][0]).toContain("Alone");
+  });
+});
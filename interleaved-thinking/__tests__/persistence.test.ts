@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonLinesSessionStore } from "../persistence.js";
+import { InterleavedThinkingServer } from "../lib.js";
+
+describe("JsonLinesSessionStore", () => {
+  let dir: string;
+  let store: JsonLinesSessionStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "it-store-"));
+    store = new JsonLinesSessionStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append and load events in order", () => {
+    const step = {
+      thought: "First",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    };
+    store.append("a/b", { type: "step", step, timestamp: "t1" });
+    store.append("a/b", {
+      type: "toolCall",
+      record: {
+        stepNumber: 1,
+        toolCall: { toolName: "x", parameters: {} },
+        result: { toolName: "x", success: true, executionTime: 1, timestamp: "t2" },
+      },
+      timestamp: "t2",
+    });
+
+    expect(store.load("a/b").map((e) => e.type)).toEqual(["step", "toolCall"]);
+    expect(store.listSessions()).toEqual(["a/b"]);
+    expect(store.load("missing")).toEqual([]);
+  });
+
+  it("should skip a partially written last line", () => {
+    store.append("s", {
+      type: "step",
+      step: { thought: "ok", stepNumber: 1, totalSteps: 1, nextStepNeeded: true },
+      timestamp: "t",
+    });
+    appendFileSync(join(dir, "s.jsonl"), '{"type":"step","st');
+
+    expect(store.load("s")).toHaveLength(1);
+  });
+
+  it("should delete sessions", () => {
+    store.append("s", {
+      type: "step",
+      step: { thought: "ok", stepNumber: 1, totalSteps: 1, nextStepNeeded: true },
+      timestamp: "t",
+    });
+    store.delete("s");
+
+    expect(store.listSessions()).toEqual([]);
+  });
+});
+
+describe("InterleavedThinkingServer persistence", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "it-persist-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createServer = () =>
+    new InterleavedThinkingServer({
+      disableLogging: true,
+      persistenceDir: dir,
+      executors: { lookup: () => ({ found: true }) },
+    });
+
+  it("should resume sessions after a restart", async () => {
+    const first = createServer();
+    await first.processStep({
+      sessionId: "investigation",
+      thought: "Look it up",
+      stepNumber: 1,
+      totalSteps: 2,
+      nextStepNeeded: true,
+      toolCall: { toolName: "lookup", parameters: {} },
+    });
+
+    const second = createServer();
+    expect(second.getHistory("investigation").toolCalls).toHaveLength(1);
+    expect(second.restoreSessions()).toEqual(["investigation"]);
+
+    // The restored analysis step sees the previous tool call
+    const result = await second.processStep({
+      sessionId: "investigation",
+      thought: "Found it",
+      stepNumber: 2,
+      totalSteps: 2,
+      nextStepNeeded: false,
+    });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.phase).toBe("analysis");
+    expect(data.stepHistoryLength).toBe(2);
+  });
+
+  it("should restore stored sessions on first use without taking session slots", async () => {
+    const first = createServer();
+    for (const sessionId of ["a", "b"]) {
+      await first.processStep({
+        sessionId,
+        thought: "Stored",
+        stepNumber: 1,
+        totalSteps: 1,
+        nextStepNeeded: false,
+      });
+    }
+
+    const second = new InterleavedThinkingServer({
+      disableLogging: true,
+      persistenceDir: dir,
+      maxSessions: 2,
+    });
+    expect(second.getSessionIds()).toEqual(["a", "b"]);
+
+    const result = await second.processStep({
+      sessionId: "c",
+      thought: "New",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    });
+    expect(result.isError).toBeUndefined();
+    expect(second.getHistory("a").steps).toHaveLength(1);
+  });
+
+  it("should replay branch changes", async () => {
+    const first = createServer();
+    const step = { sessionId: "s", totalSteps: 3, nextStepNeeded: true };
+    await first.processStep({ ...step, thought: "Root", stepNumber: 1 });
+    await first.processStep({
+      ...step,
+      thought: "Alternative",
+      stepNumber: 2,
+      branchId: "alt",
+      branchFromStep: 1,
+    });
+    first.switchBranch("alt", "s");
+    first.mergeBranch("alt", undefined, "s");
+
+    const history = createServer().getHistory("s");
+    expect(history.activeBranch).toBe("main");
+    expect(history.branchTree.alt).toMatchObject({ status: "merged", mergedInto: "main" });
+  });
+
+  it("should remove persisted history on reset", async () => {
+    const server = createServer();
+    await server.processStep({
+      sessionId: "s",
+      thought: "Temporary",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+    });
+
+    server.reset("s");
+    expect(createServer().getHistory("s").steps).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { InterleavedThinkingServer } from "../lib.js";
+import { PhaseMachine } from "../phases.js";
+
+describe("PhaseMachine", () => {
+  const machine = new PhaseMachine();
+  const step = { thought: "t", stepNumber: 1, totalSteps: 1, nextStepNeeded: true };
+
+  it("should infer phases from the step and previous phase", () => {
+    expect(machine.infer(step, "start")).toBe("thinking");
+    expect(machine.infer(step, "tool_call")).toBe("analysis");
+    expect(
+      machine.infer({ ...step, toolCall: { toolName: "x", parameters: {} } }, "analysis")
+    ).toBe("tool_call");
+    expect(machine.infer({ ...step, phase: "thinking" }, "tool_call")).toBe("thinking");
+  });
+
+  it("should reject analysis without a prior tool call", () => {
+    expect(machine.check("tool_call", "analysis")).toBeUndefined();
+    expect(machine.check("thinking", "analysis")).toEqual({
+      rule: "illegal_transition",
+      message: "analysis cannot follow thinking; expected thinking or tool_call",
+    });
+    expect(machine.check("start", "analysis")?.rule).toBe("illegal_transition");
+  });
+
+  it("should use a configured transition table", () => {
+    const custom = new PhaseMachine({ tool_call: ["thinking"] });
+
+    expect(custom.infer(step, "tool_call")).toBe("thinking");
+    expect(custom.check("tool_call", "analysis")).toBeDefined();
+    expect(custom.check("thinking", "tool_call")).toBeUndefined();
+  });
+});
+
+describe("Phase transitions", () => {
+  const createServer = (validationMode: "lenient" | "strict") =>
+    new InterleavedThinkingServer({
+      disableLogging: true,
+      validationMode,
+      executors: { lookup: () => "value" },
+    });
+  const step = (stepNumber: number, extra: Record<string, unknown> = {}) => ({
+    thought: `Step ${stepNumber}`,
+    stepNumber,
+    totalSteps: 4,
+    nextStepNeeded: true,
+    ...extra,
+  });
+  const phaseOf = async (
+    server: InterleavedThinkingServer,
+    input: ReturnType<typeof step>
+  ) => JSON.parse((await server.processStep(input)).content[0].text).phase;
+
+  it("should infer from the previous step on the same branch", async () => {
+    const server = createServer("lenient");
+    await server.processStep(step(1));
+    await server.processStep(step(2, { toolCall: { toolName: "lookup", parameters: {} } }));
+    await server.processStep(step(3, { branchId: "alt", branchFromStep: 1 }));
+
+    // Step 3 on main follows the tool call of step 2, not the branch step
+    expect(await phaseOf(server, step(3))).toBe("analysis");
+    expect(await phaseOf(server, step(4, { branchId: "alt" }))).toBe("thinking");
+  });
+
+  it("should warn or reject illegal transitions", async () => {
+    const lenient = createServer("lenient");
+    const warned = await lenient.processStep(step(1, { phase: "analysis" }));
+    expect(JSON.parse(warned.content[0].text).warnings[0].rule).toBe(
+      "illegal_transition"
+    );
+
+    const strict = createServer("strict");
+    const rejected = await strict.processStep(step(1, { phase: "analysis" }));
+    expect(rejected.isError).toBe(true);
+    expect(JSON.parse(rejected.content[0].text).error.type).toBe("ValidationError");
+  });
+});
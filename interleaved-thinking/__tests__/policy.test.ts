@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ToolPolicy } from "../policy.js";
+import { PolicyError } from "../errors.js";
+import { InterleavedThinkingServer } from "../lib.js";
+
+describe("ToolPolicy", () => {
+  it("should apply allow and deny patterns", () => {
+    const policy = new ToolPolicy({ allow: ["fs.*", "search"], deny: ["fs.write_*"] });
+
+    expect(() => policy.check("fs.read_file", {})).not.toThrow();
+    expect(() => policy.check("search", {})).not.toThrow();
+    expect(() => policy.check("fs.write_file", {})).toThrow("denied by policy");
+    expect(() => policy.check("shell", {})).toThrow("not in the allowed tools");
+    expect(() => new ToolPolicy().check("anything", {})).not.toThrow();
+  });
+
+  it("should validate parameters against a JSON schema", () => {
+    const policy = new ToolPolicy({
+      tools: {
+        search: {
+          schema: {
+            type: "object",
+            properties: { query: { type: "string" } },
+            required: ["query"],
+          },
+        },
+      },
+    });
+
+    expect(() => policy.check("search", { query: "mcp" })).not.toThrow();
+    expect(() => policy.check("search", { query: 1 })).toThrow(PolicyError);
+    expect(() => policy.check("search", {})).toThrow(/must have required property/);
+  });
+
+  it("should limit payload sizes", () => {
+    const policy = new ToolPolicy({
+      maxPayloadSize: 50,
+      tools: { "upload*": { maxPayloadSize: 20 } },
+    });
+
+    expect(() => policy.check("search", { q: "x".repeat(30) })).not.toThrow();
+    expect(() => policy.check("search", { q: "x".repeat(60) })).toThrow(
+      /above the limit of 50/
+    );
+    expect(() => policy.check("upload_file", { q: "x".repeat(30) })).toThrow(
+      /above the limit of 20/
+    );
+  });
+
+  it("should require confirmation for destructive tools", () => {
+    const policy = new ToolPolicy({ tools: { delete_file: { requireConfirmation: true } } });
+
+    expect(() => policy.check("delete_file", {})).toThrow("requires confirmation");
+    expect(() => policy.check("delete_file", {}, true)).not.toThrow();
+  });
+});
+
+describe("Tool policy enforcement", () => {
+  it("should return PolicyError results without running the tool", async () => {
+    let runs = 0;
+    const server = new InterleavedThinkingServer({
+      disableLogging: true,
+      maxToolCalls: 1,
+      executors: { delete_file: () => ++runs },
+      toolPolicy: { tools: { delete_file: { requireConfirmation: true } } },
+    });
+    const step = (confirmed: boolean) => ({
+      thought: "Clean up",
+      stepNumber: 1,
+      totalSteps: 1,
+      nextStepNeeded: false,
+      toolCall: { toolName: "delete_file", parameters: {}, metadata: { confirmed } },
+    });
+
+    const rejected = JSON.parse((await server.processStep(step(false))).content[0].text);
+    expect(rejected.toolResult.error).toMatchObject({
+      type: "PolicyError",
+      recoveryStrategy: expect.stringContaining("metadata.confirmed"),
+    });
+    expect(runs).toBe(0);
+
+    // The rejected call did not use the single call in the budget
+    const confirmed = JSON.parse((await server.processStep(step(true))).content[0].text);
+    expect(confirmed.toolResult.success).toBe(true);
+    expect(runs).toBe(1);
+  });
+
+  it("should load the policy from a tool config file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "it-policy-"));
+    try {
+      const configPath = join(dir, "tools.json");
+      writeFileSync(configPath, JSON.stringify({ policy: { deny: ["rm*"] } }));
+      const server = new InterleavedThinkingServer({
+        disableLogging: true,
+        executors: { rm: () => "removed" },
+      });
+      await server.loadToolConfig(configPath);
+
+      const result = await server.processStep({
+        thought: "Remove",
+        stepNumber: 1,
+        totalSteps: 1,
+        nextStepNeeded: false,
+        toolCall: { toolName: "rm", parameters: {} },
+      });
+      expect(JSON.parse(result.content[0].text).toolResult.error.type).toBe(
+        "PolicyError"
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { InterleavedThinkingServer } from "../lib.js";
+import { createProgressListener } from "../progress.js";
+
+describe("createProgressListener", () => {
+  let client: Client;
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("should send progress notifications for tool calls", async () => {
+    const thinkingServer = new InterleavedThinkingServer({
+      disableLogging: true,
+      executors: {
+        crawl: (_, context) => {
+          context.reportProgress(5, 10, "5 of 10 pages");
+          return "done";
+        },
+      },
+    });
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.registerTool("step", { inputSchema: {} }, async (_, extra) => {
+      const result = await thinkingServer.processStep(
+        {
+          thought: "Crawl",
+          stepNumber: 1,
+          totalSteps: 1,
+          nextStepNeeded: false,
+          toolCall: { toolName: "crawl", parameters: {} },
+        },
+        { onProgress: createProgressListener(extra) }
+      );
+      return { content: result.content };
+    });
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const updates: Progress[] = [];
+    await client.callTool({ name: "step", arguments: {} }, undefined, {
+      onprogress: (progress) => updates.push(progress),
+    });
+
+    expect(updates.map((update) => update.progress)).toEqual([1, 2, 3, 4]);
+    expect(updates.map((update) => update.message)).toEqual([
+      "crawl: queued",
+      "crawl: started",
+      "crawl: 5 of 10 pages",
+      expect.stringMatching(/^crawl: completed in \d+ms$/),
+    ]);
+  });
+});
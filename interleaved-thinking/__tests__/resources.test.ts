@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { InterleavedThinkingServer } from "../lib.js";
+import { registerHistoryResources } from "../resources.js";
+
+describe("History resources", () => {
+  let thinkingServer: InterleavedThinkingServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    thinkingServer = new InterleavedThinkingServer({
+      disableLogging: true,
+      executors: { lookup: () => "value" },
+    });
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerHistoryResources(server, thinkingServer);
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "Start",
+      stepNumber: 1,
+      totalSteps: 3,
+      nextStepNeeded: true,
+    });
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "Look up",
+      stepNumber: 2,
+      totalSteps: 3,
+      nextStepNeeded: true,
+      toolCall: { toolName: "lookup", parameters: {} },
+    });
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "Alternative",
+      stepNumber: 3,
+      totalSteps: 3,
+      nextStepNeeded: false,
+      branchFromStep: 1,
+      branchId: "alt",
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const read = async (uri: string) => {
+    const result = await client.readResource({ uri });
+    return JSON.parse(result.contents[0].text as string);
+  };
+
+  it("should list session resources", async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+
+    expect(uris).toContain("thinking://sessions");
+    expect(uris).toContain("thinking://sessions/s1/history");
+    expect(uris).toContain("thinking://sessions/s1/steps/2");
+    expect(uris).toContain("thinking://sessions/s1/branches/alt");
+    expect(uris).toContain("thinking://sessions/s1/tool-calls");
+  });
+
+  it("should list resource templates", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "thinking://sessions/{sessionId}/history",
+      "thinking://sessions/{sessionId}/steps/{stepNumber}",
+      "thinking://sessions/{sessionId}/branches/{branchId}",
+      "thinking://sessions/{sessionId}/tool-calls",
+    ]);
+  });
+
+  it("should read history, steps, branches and tool calls", async () => {
+    expect((await read("thinking://sessions")).sessions[0]).toMatchObject({
+      id: "s1",
+      totalSteps: 3,
+    });
+    expect((await read("thinking://sessions/s1/history")).steps).toHaveLength(3);
+    expect((await read("thinking://sessions/s1/steps/2")).toolResult.result).toBe(
+      "value"
+    );
+    expect((await read("thinking://sessions/s1/branches/alt")).steps).toHaveLength(1);
+    expect((await read("thinking://sessions/s1/tool-calls")).toolCalls).toHaveLength(1);
+  });
+
+  it("should fail for unknown steps", async () => {
+    await expect(read("thinking://sessions/s1/steps/9")).rejects.toThrow(
+      /Step 9 not found/
+    );
+  });
+});
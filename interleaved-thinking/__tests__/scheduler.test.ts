@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { ToolCallScheduler } from "../scheduler.js";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe("ToolCallScheduler", () => {
+  it("should never run more tasks than the concurrency limit", async () => {
+    const scheduler = new ToolCallScheduler(2);
+    let running = 0;
+    let peak = 0;
+
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(task)));
+
+    expect(peak).toBe(2);
+    expect(scheduler.getActiveCount()).toBe(0);
+  });
+
+  it("should start queued tasks in priority order", async () => {
+    const scheduler = new ToolCallScheduler(1);
+    const gate = deferred();
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const blocker = scheduler.schedule(() => gate.promise);
+    const queued = [
+      scheduler.schedule(record("low"), "low"),
+      scheduler.schedule(record("normal-1")),
+      scheduler.schedule(record("high"), "high"),
+      scheduler.schedule(record("normal-2"), "normal"),
+    ];
+
+    expect(scheduler.getQueueLength()).toBe(4);
+    gate.resolve();
+    await Promise.all([blocker, ...queued]);
+
+    expect(order).toEqual(["high", "normal-1", "normal-2", "low"]);
+  });
+
+  it("should propagate task failures and keep running", async () => {
+    const scheduler = new ToolCallScheduler(1);
+
+    await expect(
+      scheduler.schedule(async () => {
+        throw new Error("task failed");
+      })
+    ).rejects.toThrow("task failed");
+    await expect(scheduler.schedule(async () => "next")).resolves.toBe("next");
+  });
+
+  it("should reject an invalid concurrency limit", () => {
+    expect(() => new ToolCallScheduler(0)).toThrow(/positive integer/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SessionManager } from "../session.js";
+import { StateManager, ToolCallManager } from "../lib.js";
+
+function createManager(sessionTtl: number, maxSessions: number) {
+  return new SessionManager({
+    sessionTtl,
+    maxSessions,
+    createSession: () => ({
+      stateManager: new StateManager(),
+      toolCallManager: new ToolCallManager({
+        maxToolCalls: 5,
+        defaultTimeout: 1000,
+        enableCache: false,
+      }),
+    }),
+  });
+}
+
+describe("SessionManager", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should lazily create one session per id", () => {
+    const sessions = createManager(0, 10);
+
+    const a = sessions.getSession("a");
+    expect(sessions.getSession("a")).toBe(a);
+    expect(sessions.getSession("b").stateManager).not.toBe(a.stateManager);
+    expect(sessions.getSession().id).toBe("default");
+    expect(sessions.listSessions().map((s) => s.id)).toEqual(["a", "b", "default"]);
+  });
+
+  it("should evict sessions idle longer than the TTL", () => {
+    vi.useFakeTimers();
+    const sessions = createManager(1000, 10);
+
+    sessions.getSession("idle");
+    sessions.getSession("busy");
+    vi.advanceTimersByTime(600);
+    sessions.getSession("busy");
+    vi.advanceTimersByTime(600);
+
+    expect(sessions.evictIdleSessions()).toEqual(["idle"]);
+    expect(sessions.hasSession("busy")).toBe(true);
+  });
+
+  it("should keep sessions with running tool calls and cancel evicted ones", () => {
+    vi.useFakeTimers();
+    const sessions = createManager(1000, 10);
+
+    const running = sessions.getSession("running");
+    running.activeToolSteps = 1;
+    const idle = sessions.getSession("idle");
+    const cancel = vi.spyOn(idle.toolCallManager, "cancel");
+    vi.advanceTimersByTime(1001);
+
+    expect(sessions.evictIdleSessions()).toEqual(["idle"]);
+    expect(cancel).toHaveBeenCalledWith("Session expired after being idle");
+    expect(idle.endReason).toBe("expired");
+    expect(sessions.hasSession("running")).toBe(true);
+  });
+
+  it("should reject new sessions beyond the cap", () => {
+    vi.useFakeTimers();
+    const sessions = createManager(1000, 2);
+
+    sessions.getSession("a");
+    sessions.getSession("b");
+    expect(() => sessions.getSession("c")).toThrow("Session limit reached");
+
+    // Expired sessions free up room
+    vi.advanceTimersByTime(1001);
+    expect(sessions.getSession("c").id).toBe("c");
+    expect(sessions.hasSession("a")).toBe(false);
+  });
+});
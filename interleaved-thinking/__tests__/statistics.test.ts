@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { computeToolCallStatistics } from "../statistics.js";
+import { ToolCallManager, ToolResultData } from "../lib.js";
+
+const result = (
+  toolName: string,
+  executionTime: number,
+  extra: Partial<ToolResultData> = {}
+): ToolResultData => ({
+  toolName,
+  success: true,
+  executionTime,
+  timestamp: "t",
+  ...extra,
+});
+
+describe("computeToolCallStatistics", () => {
+  it("should break down outcomes, retries and cache hits per tool", () => {
+    const stats = computeToolCallStatistics([
+      result("search", 10),
+      result("search", 30, { cached: true }),
+      result("fetch", 100, {
+        success: false,
+        error: { type: "TimeoutError", message: "timeout" },
+        attempts: [
+          { attempt: 1, success: false, executionTime: 50, timestamp: "t" },
+          { attempt: 2, success: false, executionTime: 50, timestamp: "t" },
+        ],
+      }),
+      result("fetch", 20, {
+        success: false,
+        error: { type: "ToolExecutionError", message: "offline" },
+      }),
+    ]);
+
+    expect(stats).toMatchObject({
+      totalCalls: 4,
+      successfulCalls: 2,
+      failedCalls: 2,
+      timedOutCalls: 1,
+      cacheHits: 1,
+      cacheHitRatio: 0.25,
+      retries: 1,
+      totalExecutionTime: 130,
+    });
+    expect(stats.tools.search).toMatchObject({ calls: 2, cacheHits: 1, cacheHitRatio: 0.5 });
+    expect(stats.tools.fetch).toMatchObject({ calls: 2, failedCalls: 2, timedOutCalls: 1 });
+  });
+
+  it("should compute latency percentiles of executed calls", () => {
+    const times = Array.from({ length: 20 }, (_, i) => (i + 1) * 10);
+    const stats = computeToolCallStatistics(times.map((time) => result("x", time)));
+
+    expect(stats.latency).toEqual({ min: 10, avg: 105, p95: 190, max: 200 });
+    expect(computeToolCallStatistics([]).latency).toEqual({
+      min: 0,
+      avg: 0,
+      p95: 0,
+      max: 0,
+    });
+  });
+
+  it("should leave calls rejected before running out of latency", async () => {
+    const manager = new ToolCallManager({
+      maxToolCalls: 5,
+      defaultTimeout: 1000,
+      enableCache: false,
+    });
+    manager.registerExecutor("slow", () => new Promise((done) => setTimeout(done, 50)));
+
+    await manager.executeToolCall({ toolName: "slow", parameters: {} });
+    await manager.executeToolCall({ toolName: "missing", parameters: {} });
+    await manager.executeToolCall({ toolName: "missing", parameters: {} });
+
+    const stats = manager.getStatistics();
+    expect(stats.failedCalls).toBe(2);
+    expect(stats.latency.min).toBeGreaterThanOrEqual(45);
+    expect(stats.latency.avg).toBe(stats.latency.max);
+    expect(stats.totalExecutionTime).toBe(stats.latency.max);
+    expect(stats.tools.missing.latency).toEqual({ min: 0, avg: 0, p95: 0, max: 0 });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { InterleavedThinkingServer } from "../lib.js";
+import { registerCompanionTools } from "../tools.js";
+
+describe("Companion tools", () => {
+  let thinkingServer: InterleavedThinkingServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    thinkingServer = new InterleavedThinkingServer({
+      disableLogging: true,
+      executors: { lookup: () => "value" },
+    });
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerCompanionTools(server, thinkingServer);
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "Look it up",
+      stepNumber: 1,
+      totalSteps: 2,
+      nextStepNeeded: true,
+      toolCall: { toolName: "lookup", parameters: {} },
+    });
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "It is value. Done.",
+      stepNumber: 2,
+      totalSteps: 2,
+      nextStepNeeded: false,
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    return result.structuredContent as any;
+  };
+
+  it("should query filtered history", async () => {
+    const data = await call("get-thinking-history", {
+      sessionId: "s1",
+      phase: "analysis",
+    });
+
+    expect(data.matchedSteps).toBe(1);
+    expect(data.totalSteps).toBe(2);
+    expect(data.steps[0].stepNumber).toBe(2);
+  });
+
+  it("should summarize a session", async () => {
+    const data = await call("summarize-thinking", { sessionId: "s1" });
+
+    expect(data.conclusions).toEqual([{ stepNumber: 2, summary: "It is value." }]);
+    expect(data.toolOutcomes[0]).toMatchObject({ toolName: "lookup", success: true });
+  });
+
+  it("should manage branches", async () => {
+    await thinkingServer.processStep({
+      sessionId: "s1",
+      thought: "Try another source",
+      stepNumber: 3,
+      totalSteps: 3,
+      nextStepNeeded: false,
+      branchId: "alt",
+      branchFromStep: 1,
+    });
+
+    const switched = await call("manage-branch", {
+      sessionId: "s1",
+      action: "switch",
+      branchId: "alt",
+    });
+    expect(switched.activeBranch).toBe("alt");
+
+    const compared = await call("manage-branch", {
+      sessionId: "s1",
+      action: "compare",
+      branchId: "alt",
+    });
+    expect(compared.comparison.right.successfulToolCalls).toBe(1);
+
+    const result = await client.callTool({
+      name: "manage-branch",
+      arguments: { sessionId: "s1", action: "abandon", branchId: "missing" },
+    });
+    expect(result.isError).toBe(true);
+    expect((result.structuredContent as any).error.type).toBe("ValidationError");
+  });
+
+  it("should report tool statistics", async () => {
+    const data = await call("get-tool-statistics", { sessionId: "s1" });
+    expect(data).toMatchObject({ totalToolCalls: 1, successfulToolCalls: 1 });
+    expect(data.tools.lookup.calls).toBe(1);
+
+    const lookup = await call("get-tool-statistics", {
+      sessionId: "s1",
+      toolName: "lookup",
+    });
+    expect(lookup.metrics.successfulCalls).toBe(1);
+  });
+
+  it("should reset a session", async () => {
+    const data = await call("reset-thinking-session", { sessionId: "s1" });
+
+    expect(data).toMatchObject({ reset: true, clearedSteps: 2, clearedToolCalls: 1 });
+    expect(thinkingServer.getHistory("s1").steps).toEqual([]);
+  });
+
+  it("should export a session", async () => {
+    const text = async (format?: string) => {
+      const result = await client.callTool({
+        name: "export-thinking-session",
+        arguments: { sessionId: "s1", ...(format && { format }) },
+      });
+      return (result.content as Array<{ text: string }>)[0].text;
+    };
+
+    expect(await text()).toContain("# Thinking session `s1`");
+    expect(JSON.parse(await text("json"))).toMatchObject({ version: 1, sessionId: "s1" });
+    expect(await text("mermaid")).toMatch(/^flowchart TD/);
+  });
+});
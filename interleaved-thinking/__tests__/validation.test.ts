@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InterleavedThinkingServer, StateManager } from "../lib.js";
+import { checkStepSequence } from "../validation.js";
+
+const step = (stepNumber: number, extra: Record<string, unknown> = {}) => ({
+  thought: `Step ${stepNumber}`,
+  stepNumber,
+  totalSteps: 5,
+  nextStepNeeded: true,
+  phase: "thinking" as const,
+  ...extra,
+});
+
+describe("checkStepSequence", () => {
+  let state: StateManager;
+
+  beforeEach(() => {
+    state = new StateManager();
+    state.addStep(step(1));
+    state.addStep(step(2));
+  });
+
+  const rules = (input: ReturnType<typeof step>) =>
+    checkStepSequence(input, state).map((issue) => issue.rule);
+
+  it("should accept consecutive steps, revisions and new branches", () => {
+    expect(rules(step(3))).toEqual([]);
+    expect(rules(step(2, { isRevision: true, revisesStep: 2 }))).toEqual([]);
+    expect(rules(step(2, { branchId: "alt", branchFromStep: 1 }))).toEqual([]);
+  });
+
+  it("should report duplicate and skipped step numbers", () => {
+    expect(rules(step(2))).toEqual(["duplicate_step"]);
+    expect(rules(step(5))).toEqual(["step_gap"]);
+    expect(rules(step(5, { branchId: "alt", branchFromStep: 1 }))).toEqual([
+      "step_gap",
+    ]);
+  });
+
+  it("should report invalid branch points", () => {
+    expect(rules(step(3, { branchId: "alt" }))).toEqual(["missing_branch_point"]);
+    expect(rules(step(10, { branchId: "alt", branchFromStep: 9 }))).toEqual([
+      "unknown_branch_point",
+    ]);
+
+    // Step 4 only exists on another branch than the one being forked from
+    state.addStep(step(3, { branchId: "other", branchFromStep: 2 }));
+    state.addStep(step(4, { branchId: "other" }));
+    state.addStep(step(3));
+    expect(rules(step(5, { branchId: "alt", branchFromStep: 4 }))).toEqual([
+      "unknown_branch_point",
+    ]);
+  });
+
+  it("should report steps after the branch was completed", () => {
+    state.addStep(step(3, { nextStepNeeded: false }));
+
+    expect(rules(step(4))).toEqual(["step_after_completion"]);
+    expect(rules(step(4, { needsMoreSteps: true }))).toEqual([]);
+  });
+});
+
+describe("Validation modes", () => {
+  it("should return warnings in lenient mode", async () => {
+    const server = new InterleavedThinkingServer({ disableLogging: true });
+    await server.processStep(step(1));
+
+    const result = await server.processStep(step(3));
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text).warnings).toEqual([
+      { rule: "step_gap", message: "Step 3 skips ahead; expected step 2" },
+    ]);
+  });
+
+  it("should reject invalid steps in strict mode", async () => {
+    const server = new InterleavedThinkingServer({
+      disableLogging: true,
+      validationMode: "strict",
+    });
+    await server.processStep(step(1));
+
+    const result = await server.processStep(step(1));
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error.type).toBe("ValidationError");
+    expect(server.getHistory().steps).toHaveLength(1);
+  });
+});
@@ -0,0 +1,197 @@
+import { BudgetExceededError } from "./errors.js";
+
+/**
+ * Tool call budgets of a session
+ */
+export interface BudgetConfig {
+  // Tool calls per session
+  maxToolCalls: number;
+  // Tool calls per session of individual tools, keyed by tool name
+  toolLimits: Record<string, number>;
+  // Cumulative execution time of the session's tool calls in milliseconds
+  maxExecutionTime?: number;
+  // Milliseconds after the session started in which tools may run
+  maxWallClockTime?: number;
+  // Fraction of a budget after which a warning is reported
+  warningThreshold: number;
+}
+
+export interface BudgetUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+/**
+ * Remaining budget as reported in step responses. Only configured budgets
+ * are included; warnings list the budgets past the warning threshold.
+ */
+export interface BudgetReport {
+  toolCalls: BudgetUsage;
+  tools?: Record<string, BudgetUsage>;
+  executionTime?: BudgetUsage;
+  wallClockTime?: BudgetUsage;
+  warnings?: string[];
+}
+
+function usage(used: number, limit: number): BudgetUsage {
+  return { used, limit, remaining: Math.max(0, limit - used) };
+}
+
+/**
+ * Tracks the tool calls and execution time of a session against its budgets
+ */
+export class BudgetTracker {
+  private config: BudgetConfig;
+  private toolCalls: number = 0;
+  private toolCallsByName: Map<string, number> = new Map();
+  private executionTime: number = 0;
+  private startedAt: number = Date.now();
+
+  constructor(config: Partial<BudgetConfig> & Pick<BudgetConfig, "maxToolCalls">) {
+    this.config = {
+      maxToolCalls: config.maxToolCalls,
+      toolLimits: config.toolLimits ?? {},
+      maxExecutionTime: config.maxExecutionTime,
+      maxWallClockTime: config.maxWallClockTime,
+      warningThreshold: config.warningThreshold ?? 0.8,
+    };
+  }
+
+  /**
+   * Change budgets; usage so far is kept
+   */
+  public update(config: Partial<BudgetConfig>): void {
+    this.config = {
+      maxToolCalls: config.maxToolCalls ?? this.config.maxToolCalls,
+      toolLimits: { ...this.config.toolLimits, ...config.toolLimits },
+      maxExecutionTime: config.maxExecutionTime ?? this.config.maxExecutionTime,
+      maxWallClockTime: config.maxWallClockTime ?? this.config.maxWallClockTime,
+      warningThreshold: config.warningThreshold ?? this.config.warningThreshold,
+    };
+  }
+
+  /**
+   * Throw a BudgetExceededError if the tool calls don't fit the remaining budget
+   */
+  public check(toolNames: string[]): void {
+    const { maxToolCalls, toolLimits, maxExecutionTime, maxWallClockTime } = this.config;
+
+    if (this.toolCalls + toolNames.length > maxToolCalls) {
+      throw new BudgetExceededError(
+        toolNames.length > 1
+          ? `Tool call limit reached: batch of ${toolNames.length} exceeds the ${
+              maxToolCalls - this.toolCalls
+            } remaining call(s)`
+          : `Tool call limit reached: ${maxToolCalls} call(s) per session`
+      );
+    }
+
+    for (const toolName of new Set(toolNames)) {
+      const limit = toolLimits[toolName];
+      const requested = toolNames.filter((name) => name === toolName).length;
+      if (
+        limit !== undefined &&
+        (this.toolCallsByName.get(toolName) ?? 0) + requested > limit
+      ) {
+        throw new BudgetExceededError(
+          `Tool call limit of "${toolName}" reached: ${limit} call(s) per session`
+        );
+      }
+    }
+
+    if (maxExecutionTime !== undefined && this.executionTime >= maxExecutionTime) {
+      throw new BudgetExceededError(
+        `Execution time budget of ${maxExecutionTime}ms is used up`
+      );
+    }
+
+    if (maxWallClockTime !== undefined && this.getElapsed() >= maxWallClockTime) {
+      throw new BudgetExceededError(
+        `Wall-clock budget of ${maxWallClockTime}ms is used up`
+      );
+    }
+  }
+
+  /**
+   * Count a tool call against the budget, or throw if it doesn't fit
+   */
+  public reserve(toolName: string): void {
+    this.check([toolName]);
+    this.toolCalls++;
+    this.toolCallsByName.set(toolName, (this.toolCallsByName.get(toolName) ?? 0) + 1);
+  }
+
+  /**
+   * Add the execution time of a finished tool call
+   */
+  public recordExecution(executionTime: number): void {
+    this.executionTime += executionTime;
+  }
+
+  /**
+   * Whether any tool call can still run
+   */
+  public hasRemaining(): boolean {
+    try {
+      this.check([]);
+      return this.toolCalls < this.config.maxToolCalls;
+    } catch {
+      return false;
+    }
+  }
+
+  public getReport(): BudgetReport {
+    const { maxToolCalls, toolLimits, maxExecutionTime, maxWallClockTime } = this.config;
+    const report: BudgetReport = { toolCalls: usage(this.toolCalls, maxToolCalls) };
+
+    if (Object.keys(toolLimits).length > 0) {
+      report.tools = Object.fromEntries(
+        Object.entries(toolLimits).map(([toolName, limit]) => [
+          toolName,
+          usage(this.toolCallsByName.get(toolName) ?? 0, limit),
+        ])
+      );
+    }
+    if (maxExecutionTime !== undefined) {
+      report.executionTime = usage(this.executionTime, maxExecutionTime);
+    }
+    if (maxWallClockTime !== undefined) {
+      report.wallClockTime = usage(this.getElapsed(), maxWallClockTime);
+    }
+
+    const budgets: Array<[string, BudgetUsage | undefined]> = [
+      ["tool calls", report.toolCalls],
+      ...Object.entries(report.tools ?? {}).map(
+        ([toolName, toolUsage]): [string, BudgetUsage] => [`calls of "${toolName}"`, toolUsage]
+      ),
+      ["execution time (ms)", report.executionTime],
+      ["wall-clock time (ms)", report.wallClockTime],
+    ];
+    const warnings = budgets
+      .filter(
+        ([, budget]) =>
+          budget && budget.used >= budget.limit * this.config.warningThreshold
+      )
+      .map(([label, budget]) => `${label}: ${budget!.used} of ${budget!.limit} used`);
+    if (warnings.length > 0) {
+      report.warnings = warnings;
+    }
+
+    return report;
+  }
+
+  /**
+   * Clear usage and restart the wall clock
+   */
+  public reset(): void {
+    this.toolCalls = 0;
+    this.toolCallsByName.clear();
+    this.executionTime = 0;
+    this.startedAt = Date.now();
+  }
+
+  private getElapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+}
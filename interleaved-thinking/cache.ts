@@ -0,0 +1,205 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ToolResultData } from "./lib.js";
+
+/**
+ * Result cache configuration
+ */
+export interface ResultCacheConfig {
+  // Time to live of an entry in milliseconds
+  ttl: number;
+  // Least recently used entries are evicted beyond this count
+  maxEntries: number;
+  // Results whose JSON is longer than this many characters are not cached
+  maxEntrySize: number;
+  // Per-tool policy overriding the executor's `cacheable` flag;
+  // keys are tool names or `<namespace>.*`
+  tools: Record<string, boolean>;
+  // JSON file the cache is loaded from and saved to
+  persistPath?: string;
+}
+
+// Changes are written to the persist file at most this often
+const SAVE_DELAY = 1000;
+
+interface CacheEntry {
+  result: ToolResultData;
+  expiresAt: number;
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal parameters always
+ * produce the same string regardless of key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Bounded cache of successful tool results with TTL expiry and LRU eviction
+ */
+export class ResultCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private config: ResultCacheConfig;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(config?: Partial<ResultCacheConfig>) {
+    this.config = {
+      ttl: config?.ttl ?? 5 * 60 * 1000,
+      maxEntries: config?.maxEntries ?? 500,
+      maxEntrySize: config?.maxEntrySize ?? 100000,
+      tools: config?.tools ?? {},
+      persistPath: config?.persistPath,
+    };
+
+    if (this.config.persistPath) {
+      this.load(this.config.persistPath);
+    }
+  }
+
+  /**
+   * Cache key of a tool call: the tool name and a hash of its canonical parameters
+   */
+  public getKey(toolName: string, parameters: Record<string, any>): string {
+    const hash = createHash("sha256").update(canonicalJson(parameters)).digest("hex");
+    return `${toolName}:${hash}`;
+  }
+
+  /**
+   * Whether results of a tool may be cached. The configured policy wins over
+   * the executor's own flag; tools are not cacheable unless marked so.
+   */
+  public isCacheable(toolName: string, executorCacheable?: boolean): boolean {
+    const separator = toolName.indexOf(".");
+    const policy =
+      this.config.tools[toolName] ??
+      (separator > 0 ? this.config.tools[`${toolName.slice(0, separator)}.*`] : undefined);
+
+    return policy ?? executorCacheable ?? false;
+  }
+
+  /**
+   * Get a live entry and mark it as recently used
+   */
+  public get(key: string): ToolResultData | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.save();
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.result;
+  }
+
+  /**
+   * Store a result, evicting the least recently used entries beyond the limit
+   */
+  public set(key: string, result: ToolResultData): void {
+    if ((JSON.stringify(result.result) ?? "").length > this.config.maxEntrySize) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: Date.now() + this.config.ttl });
+
+    this.evictOverflow();
+    this.save();
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.save();
+  }
+
+  /**
+   * Write pending changes to the persist file
+   */
+  public close(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.write();
+    }
+  }
+
+  /**
+   * Evict the least recently used entries beyond the limit
+   */
+  private evictOverflow(): void {
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Read persisted entries, dropping expired ones and those beyond the limit
+   */
+  private load(path: string): void {
+    if (!existsSync(path)) {
+      return;
+    }
+
+    try {
+      const entries = JSON.parse(readFileSync(path, "utf-8")) as Array<
+        [string, CacheEntry]
+      >;
+      const now = Date.now();
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.evictOverflow();
+    } catch {
+      // A corrupt cache file is discarded; results are simply recomputed
+    }
+  }
+
+  /**
+   * Schedule a write of all entries, if a persist file is configured, so a
+   * burst of changes is written once
+   */
+  private save(): void {
+    if (!this.config.persistPath || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.write();
+    }, SAVE_DELAY);
+  }
+
+  private write(): void {
+    const path = this.config.persistPath!;
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify([...this.entries]));
+  }
+}
@@ -0,0 +1,421 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import yargs from "yargs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { EXPORT_FORMATS, ExportFormat } from "./export.js";
+import type { HttpServerOptions } from "./http.js";
+import { DEFAULT_SERVER_CONFIG, ServerConfig } from "./lib.js";
+
+/**
+ * Configuration of the server binary
+ */
+export interface CliConfig {
+  server: Partial<ServerConfig>;
+  // Tool executor configuration file (see loadToolConfig)
+  toolsConfig?: string;
+  transport: "stdio" | "http";
+  // Listen address and auth of the HTTP transport
+  http: HttpServerOptions;
+  // Print the effective configuration instead of starting the server
+  printConfig: boolean;
+  // Export a persisted session instead of starting the server
+  export?: ExportCommand;
+}
+
+/**
+ * The `export <sessionId>` subcommand
+ */
+export interface ExportCommand {
+  sessionId: string;
+  format: ExportFormat;
+  // Write to this file instead of stdout
+  output?: string;
+}
+
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+const nonNegative = z.number().min(0);
+const phase = z.enum(["thinking", "tool_call", "analysis"]);
+
+const budgetSchema = z.strictObject({
+  maxToolCalls: positiveInt.optional(),
+  toolLimits: z.record(z.string(), z.number().int().min(0)).optional(),
+  maxExecutionTime: positiveInt.optional(),
+  maxWallClockTime: positiveInt.optional(),
+  warningThreshold: z.number().min(0).max(1).optional(),
+});
+
+/**
+ * Settings accepted in a config file; keys follow ServerConfig
+ */
+const configFileSchema = z.strictObject({
+  maxToolCalls: positiveInt.optional(),
+  defaultTimeout: positiveInt.optional(),
+  disableLogging: z.boolean().optional(),
+  logging: z
+    .strictObject({
+      level: z.enum(["debug", "info", "warn", "error"]).optional(),
+      format: z.enum(["pretty", "json"]).optional(),
+      redactKeys: z.array(z.string()).optional(),
+      file: z.string().optional(),
+      width: z.number().int().positive().optional(),
+      maxResultLength: positiveInt.optional(),
+    })
+    .optional(),
+  enableResultCache: z.boolean().optional(),
+  maxResultSize: positiveInt.optional(),
+  maxConcurrency: positiveInt.optional(),
+  // 0 disables expiry
+  sessionTtl: nonNegativeInt.optional(),
+  maxSessions: positiveInt.optional(),
+  validationMode: z.enum(["lenient", "strict"]).optional(),
+  persistenceDir: z.string().optional(),
+  toolsConfig: z.string().optional(),
+  transport: z.enum(["stdio", "http"]).optional(),
+  host: z.string().optional(),
+  port: z.number().int().min(0).max(65535).optional(),
+  authToken: z.string().min(1).optional(),
+  allowedHosts: z.array(z.string().min(1)).optional(),
+  retry: z
+    .strictObject({
+      maxRetries: nonNegativeInt.optional(),
+      baseDelay: nonNegative.optional(),
+      maxDelay: nonNegative.optional(),
+      factor: z.number().positive().optional(),
+      jitter: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  resultCache: z
+    .strictObject({
+      ttl: positiveInt.optional(),
+      maxEntries: positiveInt.optional(),
+      maxEntrySize: positiveInt.optional(),
+      tools: z.record(z.string(), z.boolean()).optional(),
+      persistPath: z.string().optional(),
+    })
+    .optional(),
+  phaseTransitions: z
+    .partialRecord(z.enum(["start", "thinking", "tool_call", "analysis"]), z.array(phase))
+    .optional(),
+  toolPolicy: z
+    .strictObject({
+      allow: z.array(z.string()).optional(),
+      deny: z.array(z.string()).optional(),
+      maxPayloadSize: positiveInt.optional(),
+      tools: z
+        .record(
+          z.string(),
+          z.strictObject({
+            schema: z.record(z.string(), z.unknown()).optional(),
+            maxPayloadSize: positiveInt.optional(),
+            requireConfirmation: z.boolean().optional(),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+  budget: budgetSchema.optional(),
+  sessionBudgets: z.record(z.string(), budgetSchema).optional(),
+});
+
+type ConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * Read and validate a JSON or YAML (.yaml/.yml) config file
+ */
+export function loadConfigFile(configPath: string): ConfigFile {
+  let raw: unknown;
+  try {
+    const text = readFileSync(configPath, "utf-8");
+    raw = [".yaml", ".yml"].includes(extname(configPath).toLowerCase())
+      ? parseYaml(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${configPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const parsed = configFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid config file ${configPath}: ${issues.join("; ")}`);
+  }
+  return resolveConfigPaths(parsed.data, dirname(configPath));
+}
+
+/**
+ * Resolve relative paths of a config file against its directory, since
+ * clients may start the server from any working directory
+ */
+function resolveConfigPaths(config: ConfigFile, baseDir: string): ConfigFile {
+  const resolvePath = (path: string | undefined) =>
+    path === undefined ? undefined : resolve(baseDir, path);
+
+  return {
+    ...config,
+    ...(config.persistenceDir !== undefined && {
+      persistenceDir: resolvePath(config.persistenceDir),
+    }),
+    ...(config.toolsConfig !== undefined && {
+      toolsConfig: resolvePath(config.toolsConfig),
+    }),
+    ...(config.logging?.file !== undefined && {
+      logging: { ...config.logging, file: resolvePath(config.logging.file) },
+    }),
+    ...(config.resultCache?.persistPath !== undefined && {
+      resultCache: {
+        ...config.resultCache,
+        persistPath: resolvePath(config.resultCache.persistPath),
+      },
+    }),
+  };
+}
+
+const NUMBER_OPTIONS = [
+  "max-tool-calls",
+  "default-timeout",
+  "max-result-size",
+  "max-concurrency",
+  "max-sessions",
+] as const;
+
+/**
+ * Command-line flags; each can also be set as INTERLEAVED_THINKING_<FLAG>
+ */
+const OPTIONS = {
+  config: {
+    alias: "c",
+    type: "string",
+    describe: "JSON or YAML config file with ServerConfig settings",
+  },
+  "max-tool-calls": { type: "number", describe: "Tool calls per session" },
+  "default-timeout": {
+    type: "number",
+    describe: "Timeout of a tool call in milliseconds",
+  },
+  "disable-logging": {
+    type: "boolean",
+    describe: "Disable console logging of steps (also DISABLE_THOUGHT_LOGGING)",
+  },
+  "log-level": {
+    choices: ["debug", "info", "warn", "error"] as const,
+    describe: "Minimum level of logged records (default info)",
+  },
+  "log-format": {
+    choices: ["pretty", "json"] as const,
+    describe: "Colored boxes (default) or one JSON object per line",
+  },
+  "log-file": { type: "string", describe: "Append logs to this file instead of stderr" },
+  "enable-result-cache": {
+    type: "boolean",
+    describe: "Cache successful tool results (--no-enable-result-cache to disable)",
+  },
+  "max-result-size": {
+    type: "number",
+    describe: "Maximum characters of a tool result in responses",
+  },
+  "max-concurrency": { type: "number", describe: "Tool calls running in parallel" },
+  "session-ttl": {
+    type: "number",
+    describe: "Milliseconds after which idle sessions expire (0 never expires them)",
+  },
+  "max-sessions": { type: "number", describe: "Sessions kept at once" },
+  "validation-mode": {
+    choices: ["lenient", "strict"] as const,
+    describe: "Report step-sequence problems as warnings or reject the step",
+  },
+  "persistence-dir": {
+    type: "string",
+    describe: "Directory where session history is persisted",
+  },
+  "cache-file": {
+    type: "string",
+    describe: "JSON file where the result cache is persisted",
+  },
+  "tools-config": { type: "string", describe: "Tool executor configuration file" },
+  transport: {
+    choices: ["stdio", "http"] as const,
+    describe: "Serve MCP over stdio (default) or Streamable HTTP",
+  },
+  host: { type: "string", describe: "HTTP listen address (default 127.0.0.1)" },
+  port: { type: "number", describe: "HTTP port (default 3000)" },
+  "auth-token": {
+    type: "string",
+    describe: "Bearer token required on HTTP requests",
+  },
+  "allowed-hosts": {
+    type: "string",
+    describe:
+      "Comma-separated host names accepted in HTTP Host and Origin headers (default: the listen host)",
+  },
+  "print-config": {
+    type: "boolean",
+    default: false,
+    describe: "Print the effective configuration and exit",
+  },
+} as const;
+
+/**
+ * Flags of the export subcommand
+ */
+const EXPORT_OPTIONS = {
+  format: {
+    alias: "f",
+    choices: EXPORT_FORMATS,
+    default: "markdown" as ExportFormat,
+    describe: "Markdown report, versioned JSON document or Mermaid flowchart",
+  },
+  output: { alias: "o", type: "string", describe: "Write to a file instead of stdout" },
+} as const;
+
+/**
+ * Environment variable of an option, e.g. INTERLEAVED_THINKING_MAX_TOOL_CALLS
+ */
+function envName(option: string): string {
+  return `INTERLEAVED_THINKING_${option.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/**
+ * Parse command-line flags, INTERLEAVED_THINKING_* environment variables and
+ * an optional config file, in that order of precedence
+ */
+export function parseCliConfig(args: string[]): CliConfig {
+  // Environment variables become flags ahead of the real ones, so the
+  // command line wins and both are validated the same way
+  const envArgs = Object.keys(OPTIONS)
+    .filter((option) => process.env[envName(option)] !== undefined)
+    .map((option) => `--${option}=${process.env[envName(option)]}`);
+
+  const argv = yargs([...envArgs, ...args])
+    .scriptName("interleaved-thinking")
+    .usage("$0 [options]")
+    .parserConfiguration({ "duplicate-arguments-array": false })
+    .options(OPTIONS)
+    .command(
+      "export <sessionId>",
+      "Export a persisted session as Markdown, JSON or a Mermaid flowchart",
+      (command) =>
+        command
+          .positional("sessionId", { type: "string", describe: "Session to export" })
+          .options(EXPORT_OPTIONS)
+    )
+    .check((argv) => {
+      for (const option of NUMBER_OPTIONS) {
+        const value = argv[option];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          throw new Error(`--${option} must be a positive integer, got ${value}`);
+        }
+      }
+      const sessionTtl = argv["session-ttl"];
+      if (sessionTtl !== undefined && !(Number.isInteger(sessionTtl) && sessionTtl >= 0)) {
+        throw new Error(`--session-ttl must be a non-negative integer, got ${sessionTtl}`);
+      }
+      if (
+        argv.port !== undefined &&
+        !(Number.isInteger(argv.port) && argv.port >= 0 && argv.port <= 65535)
+      ) {
+        throw new Error(`--port must be a port number, got ${argv.port}`);
+      }
+      return true;
+    })
+    .strictCommands()
+    .strictOptions()
+    .fail(false)
+    .parseSync();
+
+  const file = argv.config ? loadConfigFile(argv.config) : {};
+  const { toolsConfig, transport, host, port, authToken, allowedHosts, ...fileConfig } =
+    file;
+
+  const legacyDisableLogging = process.env.DISABLE_THOUGHT_LOGGING;
+  const flags: Partial<ServerConfig> = {
+    maxToolCalls: argv.maxToolCalls,
+    defaultTimeout: argv.defaultTimeout,
+    disableLogging:
+      argv.disableLogging ??
+      (legacyDisableLogging !== undefined
+        ? legacyDisableLogging.toLowerCase() === "true"
+        : undefined),
+    enableResultCache: argv.enableResultCache,
+    maxResultSize: argv.maxResultSize,
+    maxConcurrency: argv.maxConcurrency,
+    sessionTtl: argv.sessionTtl,
+    maxSessions: argv.maxSessions,
+    validationMode: argv.validationMode,
+    persistenceDir: argv.persistenceDir,
+  };
+
+  const server: Partial<ServerConfig> = {
+    ...(fileConfig as Partial<ServerConfig>),
+    ...Object.fromEntries(
+      Object.entries(flags).filter(([, value]) => value !== undefined)
+    ),
+  };
+  const logging = Object.fromEntries(
+    Object.entries({
+      level: argv.logLevel,
+      format: argv.logFormat,
+      file: argv.logFile,
+    }).filter(([, value]) => value !== undefined)
+  );
+  if (Object.keys(logging).length > 0) {
+    server.logging = { ...server.logging, ...logging };
+  }
+  if (argv.cacheFile !== undefined) {
+    server.resultCache = { ...server.resultCache, persistPath: argv.cacheFile };
+  }
+
+  let exportCommand: ExportCommand | undefined;
+  if (argv._[0] === "export") {
+    if (!server.persistenceDir) {
+      throw new Error("export needs --persistence-dir or persistenceDir in the config file");
+    }
+    const { sessionId, format, output } = argv as typeof argv & ExportCommand;
+    exportCommand = { sessionId: String(sessionId), format, output };
+  }
+
+  return {
+    server,
+    toolsConfig: argv.toolsConfig ?? toolsConfig,
+    transport: argv.transport ?? transport ?? "stdio",
+    http: {
+      host: argv.host ?? host ?? "127.0.0.1",
+      port: argv.port ?? port ?? 3000,
+      authToken: argv.authToken ?? authToken,
+      allowedHosts:
+        argv.allowedHosts !== undefined
+          ? argv.allowedHosts
+              .split(",")
+              .map((host) => host.trim())
+              .filter(Boolean)
+          : allowedHosts,
+    },
+    printConfig: argv.printConfig,
+    ...(exportCommand && { export: exportCommand }),
+  };
+}
+
+/**
+ * The configuration the server runs with, defaults included
+ */
+export function getEffectiveConfig(config: CliConfig): Record<string, unknown> {
+  return {
+    ...DEFAULT_SERVER_CONFIG,
+    ...config.server,
+    ...(config.toolsConfig !== undefined && { toolsConfig: config.toolsConfig }),
+    transport: config.transport,
+    ...(config.transport === "http" && {
+      http: {
+        ...config.http,
+        // Never print the secret itself
+        ...(config.http.authToken !== undefined && { authToken: "<redacted>" }),
+      },
+    }),
+  };
+}
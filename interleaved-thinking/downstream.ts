@@ -0,0 +1,266 @@
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { ContentBlock } from "@modelcontextprotocol/sdk/types.js";
+import { ToolExecutor } from "./executors.js";
+
+/**
+ * A downstream MCP server whose tools are exposed as `<name>.<tool>`
+ */
+export interface DownstreamServerConfig {
+  name: string;
+  // stdio servers
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // Streamable HTTP servers
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Manages client connections to downstream MCP servers
+ */
+export class DownstreamServerManager {
+  private servers: Map<string, DownstreamServerConfig> = new Map();
+  private clients: Map<string, Promise<Client>> = new Map();
+  private cacheableTools: Map<string, Promise<Set<string>>> = new Map();
+  private clientVersion: string;
+
+  constructor(servers: DownstreamServerConfig[], clientVersion: string = "0.3.0") {
+    for (const server of servers) {
+      if (server.name.includes(".")) {
+        throw new Error(`Downstream server name "${server.name}" must not contain "."`);
+      }
+      if (!server.command && !server.url) {
+        throw new Error(
+          `Downstream server "${server.name}" needs either a command or a url`
+        );
+      }
+      this.servers.set(server.name, server);
+    }
+    this.clientVersion = clientVersion;
+  }
+
+  /**
+   * Names of the configured downstream servers
+   */
+  public getServerNames(): string[] {
+    return [...this.servers.keys()];
+  }
+
+  /**
+   * Create an executor that forwards `<server>.<tool>` calls to a server
+   */
+  public createExecutor(serverName: string): ToolExecutor {
+    return {
+      description: `Tools proxied from downstream MCP server "${serverName}"`,
+      cacheable: (toolName) =>
+        this.isCacheable(serverName, toolName.slice(serverName.length + 1)),
+      execute: async (parameters, context) => {
+        const toolName = context.toolName.slice(serverName.length + 1);
+        return this.callTool(
+          serverName,
+          toolName,
+          parameters,
+          context.timeout,
+          context.signal
+        );
+      },
+    };
+  }
+
+  /**
+   * Call a tool on a downstream server, connecting on first use
+   */
+  public async callTool(
+    serverName: string,
+    toolName: string,
+    parameters: Record<string, any>,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const client = await this.getClient(serverName);
+    // An aborted signal also sends a cancellation notification to the server
+    const response = await client.callTool(
+      { name: toolName, arguments: parameters },
+      undefined,
+      { timeout, signal }
+    );
+
+    if (response.isError) {
+      const content: ContentBlock[] = Array.isArray(response.content)
+        ? response.content
+        : [];
+      const message = content
+        .flatMap((item) => (item.type === "text" ? [item.text] : []))
+        .join("\n");
+      throw new Error(
+        message || `Downstream tool ${serverName}.${toolName} returned an error`
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Whether a downstream tool's results may be cached: only tools annotated
+   * as both read-only and idempotent are. Annotations are fetched once per server.
+   */
+  public async isCacheable(serverName: string, toolName: string): Promise<boolean> {
+    let pending = this.cacheableTools.get(serverName);
+    if (!pending) {
+      pending = this.getClient(serverName)
+        .then((client) => client.listTools())
+        .then(
+          ({ tools }) =>
+            new Set(
+              tools
+                .filter(
+                  (tool) =>
+                    tool.annotations?.readOnlyHint === true &&
+                    tool.annotations?.idempotentHint === true
+                )
+                .map((tool) => tool.name)
+            )
+        );
+      this.cacheableTools.set(serverName, pending);
+
+      // Forget failed listings so the next call can retry
+      pending.catch(() => {
+        if (this.cacheableTools.get(serverName) === pending) {
+          this.cacheableTools.delete(serverName);
+        }
+      });
+    }
+
+    try {
+      return (await pending).has(toolName);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all downstream tools with their namespaced names
+   */
+  public async listTools(): Promise<string[]> {
+    const names: string[] = [];
+
+    for (const serverName of this.servers.keys()) {
+      const client = await this.getClient(serverName);
+      const { tools } = await client.listTools();
+      names.push(...tools.map((tool) => `${serverName}.${tool.name}`));
+    }
+
+    return names;
+  }
+
+  /**
+   * Close all open connections
+   */
+  public async close(): Promise<void> {
+    const clients = [...this.clients.values()];
+    this.clients.clear();
+    this.cacheableTools.clear();
+
+    await Promise.allSettled(
+      clients.map(async (pending) => (await pending).close())
+    );
+  }
+
+  /**
+   * Get a connected client, reusing an open or in-flight connection
+   */
+  private getClient(serverName: string): Promise<Client> {
+    const existing = this.clients.get(serverName);
+    if (existing) {
+      return existing;
+    }
+
+    const config = this.servers.get(serverName);
+    if (!config) {
+      return Promise.reject(new Error(`Unknown downstream server "${serverName}"`));
+    }
+
+    const pending = this.connect(config);
+    this.clients.set(serverName, pending);
+
+    // Forget failed connections so the next call can retry
+    pending.catch(() => {
+      if (this.clients.get(serverName) === pending) {
+        this.clients.delete(serverName);
+      }
+    });
+
+    return pending;
+  }
+
+  /**
+   * Open a client connection to a downstream server
+   */
+  private async connect(config: DownstreamServerConfig): Promise<Client> {
+    const client = new Client({
+      name: "interleaved-thinking",
+      version: this.clientVersion,
+    });
+
+    // Drop closed connections so the next call reconnects
+    client.onclose = () => {
+      const current = this.clients.get(config.name);
+      current?.then((connected) => {
+        if (connected === client && this.clients.get(config.name) === current) {
+          this.clients.delete(config.name);
+        }
+      });
+    };
+
+    await client.connect(this.createTransport(config));
+    return client;
+  }
+
+  /**
+   * Create the transport for a downstream server
+   */
+  private createTransport(config: DownstreamServerConfig): Transport {
+    if (config.url) {
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: config.headers ? { headers: config.headers } : undefined,
+      });
+    }
+
+    return new StdioClientTransport({
+      command: config.command!,
+      args: config.args,
+      env: config.env
+        ? ({ ...process.env, ...config.env } as Record<string, string>)
+        : undefined,
+      cwd: config.cwd,
+      stderr: "ignore",
+    });
+  }
+}
+
+/**
+ * Read downstream servers from the `mcpServers` section of a tool
+ * configuration file. Relative `cwd` values are resolved against the file.
+ */
+export async function loadDownstreamConfig(
+  configPath: string
+): Promise<DownstreamServerConfig[]> {
+  const raw = await readFile(configPath, "utf-8");
+  const config = JSON.parse(raw) as {
+    mcpServers?: Record<string, Omit<DownstreamServerConfig, "name">>;
+  };
+  const baseDir = dirname(resolve(configPath));
+
+  return Object.entries(config.mcpServers ?? {}).map(([name, server]) => ({
+    ...server,
+    name,
+    ...(server.command && { cwd: resolve(baseDir, server.cwd ?? ".") }),
+  }));
+}
@@ -0,0 +1,123 @@
+/**
+ * Base class for errors raised while executing a tool call.
+ * `type` is reported in ToolResultData.error.type.
+ */
+export class ToolError extends Error {
+  public readonly type: string;
+  public readonly retryable: boolean;
+  public readonly recoveryStrategy: string;
+
+  constructor(
+    type: string,
+    message: string,
+    options: { retryable: boolean; recoveryStrategy: string }
+  ) {
+    super(message);
+    this.name = type;
+    this.type = type;
+    this.retryable = options.retryable;
+    this.recoveryStrategy = options.recoveryStrategy;
+  }
+}
+
+/**
+ * Input was rejected; retrying the same call cannot succeed
+ */
+export class ValidationError extends ToolError {
+  constructor(
+    message: string,
+    recoveryStrategy: string = "Fix the tool parameters before calling again"
+  ) {
+    super("ValidationError", message, { retryable: false, recoveryStrategy });
+  }
+}
+
+/**
+ * Tool execution exceeded its timeout
+ */
+export class TimeoutError extends ToolError {
+  constructor(timeout: number) {
+    super("TimeoutError", `Tool execution timeout after ${timeout}ms`, {
+      retryable: true,
+      recoveryStrategy: "Use simpler tool or increase timeout",
+    });
+  }
+}
+
+/**
+ * Tool execution was cancelled before it finished, e.g. by a session reset
+ * or a cancelled client request
+ */
+export class CancelledError extends ToolError {
+  constructor(reason: string = "Tool execution was cancelled") {
+    super("CancelledError", reason, {
+      retryable: false,
+      recoveryStrategy: "Call the tool again if its result is still needed",
+    });
+  }
+}
+
+/**
+ * A tool call was rejected by the tool policy before it ran
+ */
+export class PolicyError extends ToolError {
+  constructor(message: string, recoveryStrategy: string) {
+    super("PolicyError", message, { retryable: false, recoveryStrategy });
+  }
+}
+
+/**
+ * A tool call was rejected because a session budget is used up
+ */
+export class BudgetExceededError extends ToolError {
+  constructor(message: string) {
+    super("BudgetExceededError", message, {
+      retryable: false,
+      recoveryStrategy:
+        "Summarize progress and finish without this tool, or reset the session",
+    });
+  }
+}
+
+// JSON-RPC "Invalid params", used by MCP servers for argument validation
+const INVALID_PARAMS_CODE = -32602;
+
+/**
+ * Classify an error thrown by an executor into a reportable error type
+ */
+export function classifyToolError(error: unknown): {
+  type: string;
+  message: string;
+  retryable: boolean;
+  recoveryStrategy: string;
+} {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ToolError) {
+    return {
+      type: error.type,
+      message,
+      retryable: error.retryable,
+      recoveryStrategy: error.recoveryStrategy,
+    };
+  }
+
+  if (
+    (error instanceof Error && error.name === "ValidationError") ||
+    (error as { code?: unknown })?.code === INVALID_PARAMS_CODE
+  ) {
+    return {
+      type: "ValidationError",
+      message,
+      retryable: false,
+      recoveryStrategy: "Fix the tool parameters before calling again",
+    };
+  }
+
+  return {
+    type: "ToolExecutionError",
+    message,
+    retryable: true,
+    recoveryStrategy: "Retry with adjusted parameters or use alternative tool",
+  };
+}
@@ -0,0 +1,299 @@
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * Context passed to an executor for a single tool call
+ */
+export interface ToolExecutionContext {
+  toolName: string;
+  timeout: number;
+  // Aborted on timeout or cancellation; executors should stop their work
+  signal: AbortSignal;
+  // Report progress of long-running work to the client
+  reportProgress: (progress: number, total?: number, message?: string) => void;
+}
+
+/**
+ * A named tool implementation that ToolCallManager can dispatch to
+ */
+export interface ToolExecutor {
+  description?: string;
+  // Set to true for tools without side effects so their results may be cached;
+  // a function decides per tool name, e.g. for a namespace
+  cacheable?: boolean | ((toolName: string) => Promise<boolean>);
+  execute(
+    parameters: Record<string, any>,
+    context: ToolExecutionContext
+  ): Promise<any>;
+}
+
+/**
+ * Plain function form of a tool implementation
+ */
+export type ToolFunction = (
+  parameters: Record<string, any>,
+  context: ToolExecutionContext
+) => any;
+
+/**
+ * Options for an executor that runs an external command
+ */
+export interface ShellExecutorOptions {
+  command: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  parseJson?: boolean;
+  description?: string;
+  cacheable?: boolean;
+}
+
+/**
+ * Executor entry in a tool configuration file
+ */
+export type ToolConfigEntry =
+  | ({ type: "shell" } & ShellExecutorOptions)
+  | {
+      type: "module";
+      module: string;
+      export?: string;
+      description?: string;
+      cacheable?: boolean;
+    };
+
+/**
+ * Tool configuration file contents
+ */
+export interface ToolConfigFile {
+  tools?: Record<string, ToolConfigEntry>;
+}
+
+/**
+ * Registry of tool executors keyed by tool name
+ */
+export class ToolExecutorRegistry {
+  private executors: Map<string, ToolExecutor> = new Map();
+  private namespaces: Map<string, ToolExecutor> = new Map();
+
+  /**
+   * Register an executor, replacing any existing one with the same name
+   */
+  public register(toolName: string, executor: ToolExecutor | ToolFunction): void {
+    this.executors.set(
+      toolName,
+      typeof executor === "function" ? createFunctionExecutor(executor) : executor
+    );
+  }
+
+  /**
+   * Remove an executor
+   */
+  public unregister(toolName: string): boolean {
+    return this.executors.delete(toolName);
+  }
+
+  /**
+   * Register an executor for every tool named `<namespace>.<tool>`.
+   * The executor receives the full namespaced name in its context.
+   */
+  public registerNamespace(namespace: string, executor: ToolExecutor): void {
+    this.namespaces.set(namespace, executor);
+  }
+
+  /**
+   * Remove a namespace executor
+   */
+  public unregisterNamespace(namespace: string): boolean {
+    return this.namespaces.delete(namespace);
+  }
+
+  /**
+   * Look up the executor for a tool name, falling back to its namespace
+   */
+  public get(toolName: string): ToolExecutor | undefined {
+    const executor = this.executors.get(toolName);
+    if (executor) {
+      return executor;
+    }
+
+    const separator = toolName.indexOf(".");
+    if (separator > 0) {
+      return this.namespaces.get(toolName.slice(0, separator));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether a tool name has an executor
+   */
+  public has(toolName: string): boolean {
+    return this.get(toolName) !== undefined;
+  }
+
+  /**
+   * List registered tool names, with namespaces shown as `<namespace>.*`
+   */
+  public list(): string[] {
+    return [
+      ...this.executors.keys(),
+      ...[...this.namespaces.keys()].map((namespace) => `${namespace}.*`),
+    ].sort();
+  }
+}
+
+/**
+ * Wrap an in-process function as an executor
+ */
+export function createFunctionExecutor(
+  fn: ToolFunction,
+  description?: string
+): ToolExecutor {
+  return {
+    description,
+    async execute(parameters, context) {
+      return fn(parameters, context);
+    },
+  };
+}
+
+/**
+ * Create an executor that runs an external command.
+ *
+ * `{{name}}` placeholders in args are replaced with parameter values, and the
+ * full parameter object is written to stdin as JSON. The command's stdout is
+ * the result; a non-zero exit code is reported as an error.
+ */
+export function createShellExecutor(options: ShellExecutorOptions): ToolExecutor {
+  return {
+    description: options.description,
+    cacheable: options.cacheable,
+    execute(parameters, context) {
+      const args = (options.args ?? []).map((arg) =>
+        arg.replace(/\{\{(\w+)\}\}/g, (_, key: string) =>
+          parameters[key] === undefined ? "" : String(parameters[key])
+        )
+      );
+
+      return new Promise((resolvePromise, reject) => {
+        const child = spawn(options.command, args, {
+          cwd: options.cwd,
+          env: { ...process.env, ...options.env },
+          stdio: ["pipe", "pipe", "pipe"],
+          signal: context.signal,
+        });
+
+        let stdout = "";
+        let stderr = "";
+        child.stdout.on("data", (chunk) => (stdout += chunk));
+        child.stderr.on("data", (chunk) => (stderr += chunk));
+        child.on("error", reject);
+        child.on("close", (code) => {
+          if (code !== 0) {
+            reject(
+              new Error(
+                `Command "${options.command}" exited with code ${code}${
+                  stderr ? `: ${stderr.trim()}` : ""
+                }`
+              )
+            );
+            return;
+          }
+
+          if (!options.parseJson) {
+            resolvePromise(stdout.trim());
+            return;
+          }
+
+          try {
+            resolvePromise(JSON.parse(stdout));
+          } catch {
+            reject(new Error(`Command "${options.command}" did not output valid JSON`));
+          }
+        });
+
+        child.stdin.on("error", () => {
+          // Commands that don't read stdin may close it early
+        });
+        child.stdin.end(JSON.stringify(parameters));
+      });
+    },
+  };
+}
+
+/**
+ * Load executors from a JSON tool configuration file.
+ * Module paths are resolved relative to the configuration file.
+ */
+export async function loadExecutorsFromConfig(
+  configPath: string
+): Promise<Map<string, ToolExecutor>> {
+  const raw = await readFile(configPath, "utf-8");
+  const config = JSON.parse(raw) as ToolConfigFile;
+
+  if (!config || typeof config !== "object") {
+    throw new Error(`Tool config ${configPath} must be a JSON object`);
+  }
+
+  const baseDir = dirname(resolve(configPath));
+  const executors = new Map<string, ToolExecutor>();
+
+  for (const [toolName, entry] of Object.entries(config.tools ?? {})) {
+    switch (entry.type) {
+      case "shell":
+        executors.set(
+          toolName,
+          createShellExecutor({
+            ...entry,
+            cwd: entry.cwd ? resolve(baseDir, entry.cwd) : baseDir,
+          })
+        );
+        break;
+
+      case "module": {
+        const modulePath = isAbsolute(entry.module)
+          ? entry.module
+          : resolve(baseDir, entry.module);
+        const loaded = await import(pathToFileURL(modulePath).href);
+        const exported = loaded[entry.export ?? "default"];
+
+        if (typeof exported === "function") {
+          executors.set(toolName, {
+            ...createFunctionExecutor(exported, entry.description),
+            cacheable: entry.cacheable,
+          });
+        } else if (exported && typeof exported.execute === "function") {
+          const executor = exported as ToolExecutor;
+          executors.set(
+            toolName,
+            entry.cacheable === undefined
+              ? executor
+              : {
+                  description: executor.description,
+                  cacheable: entry.cacheable,
+                  execute: (parameters, context) => executor.execute(parameters, context),
+                }
+          );
+        } else {
+          throw new Error(
+            `Module ${entry.module} does not export a tool function or executor as "${
+              entry.export ?? "default"
+            }"`
+          );
+        }
+        break;
+      }
+
+      default:
+        throw new Error(
+          `Unknown executor type for tool "${toolName}": ${
+            (entry as { type?: unknown }).type
+          }`
+        );
+    }
+  }
+
+  return executors;
+}
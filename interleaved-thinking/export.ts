@@ -0,0 +1,469 @@
+import { existsSync } from "node:fs";
+import { condenseThought } from "./history.js";
+import {
+  BranchInfo,
+  InterleavedStepData,
+  MAIN_BRANCH,
+  StateManager,
+  StepHistory,
+  ThoughtPhase,
+  ToolCallData,
+  ToolResultData,
+} from "./lib.js";
+import { truncateText } from "./logging.js";
+import { JsonLinesSessionStore } from "./persistence.js";
+
+export type ExportFormat = "markdown" | "json" | "mermaid";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "json", "mermaid"];
+
+/**
+ * Version of the JSON export document; bumped on incompatible changes
+ */
+export const EXPORT_VERSION = 1;
+
+/**
+ * A tool call of an exported step with its outcome
+ */
+export interface ExportedToolCall {
+  toolName: string;
+  parameters: Record<string, any>;
+  success: boolean;
+  result?: any;
+  error?: { type: string; message: string };
+  executionTime: number;
+  cached: boolean;
+  timestamp: string;
+}
+
+/**
+ * An exported step. `id` is the step's position in the session (from 1),
+ * which stays unique when step numbers repeat across branches and revisions.
+ */
+export interface ExportedStep {
+  id: number;
+  stepNumber: number;
+  totalSteps: number;
+  phase: ThoughtPhase;
+  branchId: string;
+  thought: string;
+  nextStepNeeded: boolean;
+  branchFromStep?: number;
+  revisesStep?: number;
+  // Id of the version this revision replaces
+  revisesId?: number;
+  // Id of the revision that replaced this step
+  supersededById?: number;
+  toolCalls: ExportedToolCall[];
+}
+
+/**
+ * Stable JSON document of a session
+ */
+export interface SessionExport {
+  format: "interleaved-thinking-session";
+  version: typeof EXPORT_VERSION;
+  sessionId: string;
+  activeBranch: string;
+  steps: ExportedStep[];
+  branches: Array<Omit<BranchInfo, "createdAt">>;
+  statistics: {
+    totalSteps: number;
+    totalToolCalls: number;
+    successfulToolCalls: number;
+    failedToolCalls: number;
+    totalExecutionTime: number;
+  };
+}
+
+export interface ExportOptions {
+  // Tool results longer than this many characters are truncated in Markdown
+  maxResultLength: number;
+}
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  maxResultLength: 2000,
+};
+
+const PHASE_TITLES: Record<ThoughtPhase, string> = {
+  thinking: "Thinking",
+  tool_call: "Tool calls",
+  analysis: "Analysis",
+};
+
+// Longest thought summary in a Mermaid node
+const NODE_LABEL_LENGTH = 60;
+
+/**
+ * Pair the tool calls of a step with their results
+ */
+function getToolCalls(step: InterleavedStepData): ExportedToolCall[] {
+  const calls: ToolCallData[] = [
+    ...(step.toolCall ? [step.toolCall] : []),
+    ...(step.toolCalls ?? []),
+  ];
+  const results: ToolResultData[] = [
+    ...(step.toolCall && step.toolResult ? [step.toolResult] : []),
+    ...(step.toolResults ?? []),
+  ];
+
+  return calls.flatMap((call, index) => {
+    const result = results[index];
+    if (!result) {
+      return [];
+    }
+    return [
+      {
+        toolName: call.toolName,
+        parameters: call.parameters,
+        success: result.success,
+        ...(result.result !== undefined && { result: result.result }),
+        ...(result.error && {
+          error: { type: result.error.type, message: result.error.message },
+        }),
+        executionTime: result.executionTime,
+        cached: result.cached ?? false,
+        timestamp: result.timestamp,
+      },
+    ];
+  });
+}
+
+/**
+ * Build the versioned JSON document of a session
+ */
+export function buildSessionExport(history: StepHistory, sessionId: string): SessionExport {
+  const ids = new Map(history.steps.map((step, index) => [step, index + 1]));
+  // Each version of a revised step is replaced by the next one
+  const supersededBy = new Map<InterleavedStepData, InterleavedStepData>();
+  for (const { current, superseded } of Object.values(history.revisions)) {
+    const versions = [...superseded, current];
+    versions.slice(0, -1).forEach((version, index) => {
+      supersededBy.set(version, versions[index + 1]);
+    });
+  }
+  const revises = new Map([...supersededBy].map(([version, next]) => [next, version]));
+
+  const { statistics } = history;
+  return {
+    format: "interleaved-thinking-session",
+    version: EXPORT_VERSION,
+    sessionId,
+    activeBranch: history.activeBranch,
+    steps: history.steps.map((step, index) => ({
+      id: index + 1,
+      stepNumber: step.stepNumber,
+      totalSteps: step.totalSteps,
+      phase: step.phase ?? "thinking",
+      branchId: step.branchId ?? MAIN_BRANCH,
+      thought: step.thought,
+      nextStepNeeded: step.nextStepNeeded,
+      ...(step.branchFromStep !== undefined && { branchFromStep: step.branchFromStep }),
+      ...(revises.has(step) && {
+        revisesStep: step.revisesStep,
+        revisesId: ids.get(revises.get(step)!),
+      }),
+      ...(supersededBy.has(step) && { supersededById: ids.get(supersededBy.get(step)!) }),
+      toolCalls: getToolCalls(step),
+    })),
+    branches: Object.values(history.branchTree).map(({ createdAt, ...branch }) => branch),
+    statistics: {
+      totalSteps: statistics.totalSteps,
+      totalToolCalls: statistics.totalToolCalls,
+      successfulToolCalls: statistics.successfulToolCalls,
+      failedToolCalls: statistics.failedToolCalls,
+      totalExecutionTime: statistics.totalExecutionTime,
+    },
+  };
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it
+ */
+function codeBlock(text: string, language = ""): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * Heading of a step with its branch and revision marks
+ */
+function stepHeading(step: ExportedStep): string {
+  const marks: string[] = [];
+  if (step.branchId !== MAIN_BRANCH) {
+    marks.push(
+      step.branchFromStep !== undefined
+        ? `branch \`${step.branchId}\` from step ${step.branchFromStep}`
+        : `branch \`${step.branchId}\``
+    );
+  }
+  if (step.revisesStep !== undefined) {
+    marks.push(`✏️ revises step ${step.revisesStep}`);
+  }
+  if (step.supersededById !== undefined) {
+    marks.push("superseded");
+  }
+  return [`### Step ${step.stepNumber}`, ...marks].join(" · ");
+}
+
+function renderToolCall(call: ExportedToolCall, options: ExportOptions): string[] {
+  const outcome = call.success
+    ? `succeeded in ${call.executionTime}ms${call.cached ? " (cached)" : ""}`
+    : `failed with ${call.error?.type ?? "an error"} after ${call.executionTime}ms`;
+  const lines = [
+    `**Tool call \`${call.toolName}\`** ${outcome}`,
+    "",
+    "Parameters:",
+    "",
+    codeBlock(JSON.stringify(call.parameters, null, 2), "json"),
+    "",
+  ];
+
+  if (!call.success) {
+    lines.push(`Error: ${call.error?.message ?? "unknown"}`, "");
+  } else if (call.result !== undefined) {
+    const text =
+      typeof call.result === "string"
+        ? truncateText(call.result, options.maxResultLength)
+        : truncateText(JSON.stringify(call.result, null, 2), options.maxResultLength);
+    lines.push(
+      "Result:",
+      "",
+      codeBlock(text, typeof call.result === "string" ? "" : "json"),
+      ""
+    );
+  }
+  return lines;
+}
+
+/**
+ * Render a session as Markdown: an overview, then its steps in order with
+ * consecutive steps of the same phase grouped under one heading
+ */
+export function renderMarkdown(
+  history: StepHistory,
+  sessionId: string,
+  options: Partial<ExportOptions> = {}
+): string {
+  const settings = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const document = buildSessionExport(history, sessionId);
+  const { statistics } = document;
+
+  const phaseCounts = (Object.keys(PHASE_TITLES) as ThoughtPhase[])
+    .map((phase) => ({
+      phase,
+      count: document.steps.filter((step) => step.phase === phase).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ phase, count }) => `${count} ${PHASE_TITLES[phase].toLowerCase()}`);
+
+  const lines = [
+    `# Thinking session \`${sessionId}\``,
+    "",
+    `- **Steps:** ${statistics.totalSteps}${
+      phaseCounts.length > 0 ? ` (${phaseCounts.join(", ")})` : ""
+    }`,
+    `- **Tool calls:** ${statistics.totalToolCalls} (${statistics.failedToolCalls} failed, ${statistics.totalExecutionTime}ms)`,
+  ];
+  if (document.branches.length > 0) {
+    const branches = document.branches.map(
+      (branch) =>
+        `\`${branch.id}\` from step ${branch.forkStep} of \`${branch.parentBranch}\`${
+          branch.status === "active" ? "" : ` (${branch.status})`
+        }`
+    );
+    lines.push(`- **Branches:** ${branches.join(", ")}`);
+  }
+  lines.push(`- **Active branch:** \`${document.activeBranch}\``, "");
+
+  // Runs of consecutive steps in the same phase
+  const runs: ExportedStep[][] = [];
+  for (const step of document.steps) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].phase === step.phase) {
+      run.push(step);
+    } else {
+      runs.push([step]);
+    }
+  }
+
+  for (const run of runs) {
+    const first = run[0].stepNumber;
+    const last = run[run.length - 1].stepNumber;
+    lines.push(
+      `## ${PHASE_TITLES[run[0].phase]} (${
+        run.length === 1 ? `step ${first}` : `steps ${first}–${last}`
+      })`,
+      ""
+    );
+
+    for (const step of run) {
+      lines.push(stepHeading(step), "", step.thought, "");
+      for (const call of step.toolCalls) {
+        lines.push(...renderToolCall(call, settings));
+      }
+    }
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Escape text for a quoted Mermaid label
+ */
+function mermaidText(text: string): string {
+  return text
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;");
+}
+
+/**
+ * Mermaid node of a step: rectangles for thinking, hexagons for tool calls
+ * and rounded boxes for analysis
+ */
+function mermaidNode(step: ExportedStep): string {
+  const summary =
+    step.phase === "tool_call" && step.toolCalls.length > 0
+      ? step.toolCalls
+          .map((call) => `${call.toolName}${call.success ? "" : " ✗"}`)
+          .join(", ")
+      : condenseThought(step.thought);
+  const shortened =
+    summary.length > NODE_LABEL_LENGTH
+      ? `${summary.slice(0, NODE_LABEL_LENGTH - 1)}…`
+      : summary;
+  const label = `"${mermaidText(`${step.stepNumber} · ${shortened}`)}"`;
+  const id = `s${step.id}`;
+
+  switch (step.phase) {
+    case "tool_call":
+      return `${id}{{${label}}}`;
+    case "analysis":
+      return `${id}(${label})`;
+    default:
+      return `${id}[${label}]`;
+  }
+}
+
+/**
+ * Render the step graph of a session as a Mermaid flowchart. Steps follow
+ * each other per branch, branches fork from their branch point inside their
+ * own subgraph, and revisions point at the step they replace.
+ */
+export function renderMermaid(history: StepHistory, sessionId: string): string {
+  const document = buildSessionExport(history, sessionId);
+  const lines = ["flowchart TD"];
+
+  if (document.steps.length === 0) {
+    lines.push(`  empty["No steps in ${mermaidText(sessionId)}"]`);
+    return lines.join("\n") + "\n";
+  }
+
+  const branchSteps = (branchId: string) =>
+    document.steps.filter((step) => step.branchId === branchId);
+
+  for (const step of branchSteps(MAIN_BRANCH)) {
+    lines.push(`  ${mermaidNode(step)}`);
+  }
+
+  // Steps of branches missing from the branch tree still get a node
+  const known = new Set([MAIN_BRANCH, ...document.branches.map((branch) => branch.id)]);
+  const unknown = [...new Set(document.steps.map((step) => step.branchId))].filter(
+    (branchId) => !known.has(branchId)
+  );
+  const subgraphs = [
+    ...document.branches.map((branch) => {
+      const status = branch.status === "active" ? "" : ` (${branch.status})`;
+      return { id: branch.id, label: `Branch ${branch.id}${status}` };
+    }),
+    ...unknown.map((branchId) => ({ id: branchId, label: `Branch ${branchId} (unknown)` })),
+  ];
+  subgraphs.forEach(({ id, label }, index) => {
+    lines.push(
+      `  subgraph branch${index + 1}["${mermaidText(label)}"]`,
+      ...branchSteps(id).map((step) => `    ${mermaidNode(step)}`),
+      "  end"
+    );
+  });
+
+  const edges: string[] = [];
+  document.steps.forEach((step, index) => {
+    const earlier = document.steps.slice(0, index);
+    const previous = earlier.filter((other) => other.branchId === step.branchId).pop();
+
+    if (previous) {
+      edges.push(`  s${previous.id} --> s${step.id}`);
+    } else if (step.branchFromStep !== undefined) {
+      const parent = document.branches.find((branch) => branch.id === step.branchId)
+        ?.parentBranch;
+      const fork = earlier
+        .filter(
+          (other) =>
+            other.stepNumber === step.branchFromStep &&
+            (parent === undefined || other.branchId === parent)
+        )
+        .pop();
+      if (fork) {
+        edges.push(`  s${fork.id} -->|"${mermaidText(step.branchId)}"| s${step.id}`);
+      }
+    }
+
+    if (step.revisesId !== undefined) {
+      edges.push(`  s${step.id} -.->|revises| s${step.revisesId}`);
+    }
+  });
+  lines.push(...edges);
+
+  const superseded = document.steps.filter((step) => step.supersededById !== undefined);
+  if (superseded.length > 0) {
+    lines.push(
+      "  classDef superseded stroke-dasharray: 5 5,color:#888",
+      `  class ${superseded.map((step) => `s${step.id}`).join(",")} superseded`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a session history in an export format
+ */
+export function exportSession(
+  history: StepHistory,
+  sessionId: string,
+  format: ExportFormat,
+  options: Partial<ExportOptions> = {}
+): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(history, sessionId, options);
+    case "json":
+      return JSON.stringify(buildSessionExport(history, sessionId), null, 2) + "\n";
+    case "mermaid":
+      return renderMermaid(history, sessionId);
+  }
+}
+
+/**
+ * Export a session persisted in a directory (see JsonLinesSessionStore)
+ */
+export function exportPersistedSession(
+  directory: string,
+  sessionId: string,
+  format: ExportFormat
+): string {
+  if (!existsSync(directory)) {
+    throw new Error(`Persistence directory ${directory} does not exist`);
+  }
+  const store = new JsonLinesSessionStore(directory);
+  if (!store.listSessions().includes(sessionId)) {
+    throw new Error(`No persisted session "${sessionId}" in ${directory}`);
+  }
+
+  const state = new StateManager();
+  state.restore(store.load(sessionId));
+  return exportSession(state.getHistory(), sessionId, format);
+}
@@ -0,0 +1,156 @@
+import type {
+  InterleavedStepData,
+  StepHistory,
+  ThoughtPhase,
+  ToolCallRecord,
+} from "./lib.js";
+import { MAIN_BRANCH } from "./lib.js";
+
+/**
+ * Filters for querying a step history. All filters are combined with AND.
+ */
+export interface HistoryFilter {
+  phase?: ThoughtPhase;
+  branchId?: string;
+  fromStep?: number;
+  toStep?: number;
+  toolName?: string;
+}
+
+/**
+ * Condensed outline of a thinking session
+ */
+export interface ThinkingSummary {
+  totalSteps: number;
+  phases: Record<ThoughtPhase, number>;
+  outline: Array<{
+    stepNumber: number;
+    phase: ThoughtPhase;
+    branchId?: string;
+    summary: string;
+  }>;
+  conclusions: Array<{ stepNumber: number; summary: string }>;
+  revisions: Array<{ stepNumber: number; revisesStep: number; summary: string }>;
+  branches: Array<{ branchId: string; fromStep?: number; steps: number[] }>;
+  toolOutcomes: Array<{
+    stepNumber: number;
+    toolName: string;
+    success: boolean;
+    executionTime: number;
+    error?: string;
+  }>;
+  statistics: StepHistory["statistics"];
+}
+
+const SUMMARY_LENGTH = 160;
+
+/**
+ * Shorten a thought to its first sentence, capped at a fixed length
+ */
+export function condenseThought(thought: string): string {
+  const text = thought.replace(/\s+/g, " ").trim();
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? text;
+
+  return sentence.length > SUMMARY_LENGTH
+    ? `${sentence.slice(0, SUMMARY_LENGTH - 1)}…`
+    : sentence;
+}
+
+/**
+ * Select the steps and tool calls of a history matching a filter
+ */
+export function filterHistory(
+  history: StepHistory,
+  filter: HistoryFilter
+): { steps: InterleavedStepData[]; toolCalls: ToolCallRecord[] } {
+  const inRange = (stepNumber: number) =>
+    (filter.fromStep === undefined || stepNumber >= filter.fromStep) &&
+    (filter.toStep === undefined || stepNumber <= filter.toStep);
+
+  // Main-line steps and tool calls are stored without a branch
+  const stepKey = (stepNumber: number, branchId?: string) =>
+    `${branchId ?? MAIN_BRANCH}:${stepNumber}`;
+  const matchesTool = (record: ToolCallRecord) =>
+    filter.toolName === undefined || record.toolCall.toolName === filter.toolName;
+  const toolCallSteps = new Set(
+    history.toolCalls
+      .filter(matchesTool)
+      .map((record) => stepKey(record.stepNumber, record.branchId))
+  );
+
+  const steps = history.steps.filter(
+    (step) =>
+      inRange(step.stepNumber) &&
+      (filter.phase === undefined || step.phase === filter.phase) &&
+      (filter.branchId === undefined ||
+        (step.branchId ?? MAIN_BRANCH) === filter.branchId) &&
+      (filter.toolName === undefined ||
+        toolCallSteps.has(stepKey(step.stepNumber, step.branchId)))
+  );
+  const selectedSteps = new Set(
+    steps.map((step) => stepKey(step.stepNumber, step.branchId))
+  );
+
+  return {
+    steps,
+    toolCalls: history.toolCalls.filter(
+      (record) =>
+        matchesTool(record) &&
+        selectedSteps.has(stepKey(record.stepNumber, record.branchId))
+    ),
+  };
+}
+
+/**
+ * Build a condensed outline of conclusions, revisions and tool outcomes
+ */
+export function summarizeHistory(history: StepHistory): ThinkingSummary {
+  const phases: Record<ThoughtPhase, number> = {
+    thinking: 0,
+    tool_call: 0,
+    analysis: 0,
+  };
+
+  for (const step of history.steps) {
+    phases[step.phase ?? "thinking"]++;
+  }
+
+  const finalSteps = history.steps.filter(
+    (step) => step.phase === "analysis" || !step.nextStepNeeded
+  );
+
+  return {
+    totalSteps: history.steps.length,
+    phases,
+    outline: history.steps.map((step) => ({
+      stepNumber: step.stepNumber,
+      phase: step.phase ?? "thinking",
+      ...(step.branchId && { branchId: step.branchId }),
+      summary: condenseThought(step.thought),
+    })),
+    conclusions: finalSteps.map((step) => ({
+      stepNumber: step.stepNumber,
+      summary: condenseThought(step.thought),
+    })),
+    revisions: history.steps
+      .filter((step) => step.isRevision && step.revisesStep !== undefined)
+      .map((step) => ({
+        stepNumber: step.stepNumber,
+        revisesStep: step.revisesStep!,
+        summary: condenseThought(step.thought),
+      })),
+    branches: Object.entries(history.branches).map(([branchId, steps]) => ({
+      branchId,
+      fromStep: steps[0]?.branchFromStep,
+      steps: steps.map((step) => step.stepNumber),
+    })),
+    toolOutcomes: history.toolCalls.map((record) => ({
+      stepNumber: record.stepNumber,
+      toolName: record.toolCall.toolName,
+      success: record.result.success,
+      executionTime: record.result.executionTime,
+      ...(record.result.error && { error: record.result.error.message }),
+    })),
+    statistics: history.statistics,
+  };
+}
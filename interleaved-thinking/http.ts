@@ -0,0 +1,307 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export const MCP_PATH = "/mcp";
+export const HEALTH_PATH = "/health";
+
+// Largest accepted JSON-RPC request body in bytes
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+// Sessions without requests for this long are closed
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000;
+// Longest time between checks for idle sessions
+const MAX_SWEEP_INTERVAL = 60 * 1000;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpServerOptions {
+  host: string;
+  // 0 picks a free port
+  port: number;
+  // When set, MCP requests need an `Authorization: Bearer <token>` header
+  authToken?: string;
+  // Close sessions without requests for this many ms (default 30 minutes, 0 disables)
+  idleTimeout?: number;
+  // Host names clients may use in Host and Origin headers; by default the
+  // listen host, or any loopback name when listening on loopback
+  allowedHosts?: string[];
+}
+
+/**
+ * Host name of a Host header or Origin URL, IPv6 addresses in brackets
+ */
+function hostnameOf(value: string, withScheme: boolean): string | undefined {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Host name of a configured host or address, which may be a bare IPv6 address
+ */
+function normalizeHost(host: string): string | undefined {
+  const isBareIpv6 = !host.startsWith("[") && host.split(":").length > 2;
+  return hostnameOf(isBareIpv6 ? `[${host}]` : host, false);
+}
+
+/**
+ * Host names accepted in Host and Origin headers, or undefined to accept
+ * any (listening on all interfaces without an explicit list)
+ */
+export function getAllowedHosts(options: HttpServerOptions): string[] | undefined {
+  if (options.allowedHosts) {
+    return options.allowedHosts.map((host) => normalizeHost(host) ?? host);
+  }
+  const host = normalizeHost(options.host);
+  if (!host || WILDCARD_HOSTS.includes(host)) {
+    return undefined;
+  }
+  return LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response that is not tied to a request id
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new RangeError(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Serves MCP over Streamable HTTP. Every client connection gets its own MCP
+ * session and McpServer; GET /health reports liveness without auth.
+ */
+export class McpHttpServer {
+  private httpServer: Server;
+  private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+  // Time of the latest request of each session
+  private lastActivity: Map<string, number> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+  private createMcpServer: () => McpServer;
+  private options: HttpServerOptions;
+  private allowedHosts?: string[];
+
+  constructor(createMcpServer: () => McpServer, options: HttpServerOptions) {
+    this.createMcpServer = createMcpServer;
+    this.options = options;
+    this.allowedHosts = getAllowedHosts(options);
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("Error handling MCP request:", error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening, returning the URL of the MCP endpoint
+   */
+  public listen(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off("error", reject);
+        const { port } = this.httpServer.address() as AddressInfo;
+        this.startIdleSweep();
+        resolve(`http://${this.options.host}:${port}${MCP_PATH}`);
+      });
+    });
+  }
+
+  /**
+   * Number of open MCP sessions
+   */
+  public get sessionCount(): number {
+    return this.transports.size;
+  }
+
+  /**
+   * Stop accepting connections and close every MCP session
+   */
+  public async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const stopped = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    await Promise.all([...this.transports.values()].map((transport) => transport.close()));
+    this.transports.clear();
+    this.lastActivity.clear();
+    this.httpServer.closeAllConnections();
+    await stopped;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: this.sessionCount });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    // Keep web pages from reaching the server through DNS rebinding
+    const rejectedHeader = this.getRejectedHostHeader(req);
+    if (rejectedHeader) {
+      sendJsonRpcError(res, 403, -32000, `Invalid ${rejectedHeader} header`);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="interleaved-thinking"');
+      sendJsonRpcError(res, 401, -32001, "Unauthorized");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    const transport =
+      typeof sessionId === "string" ? this.transports.get(sessionId) : undefined;
+    if (transport) {
+      this.lastActivity.set(sessionId as string, Date.now());
+    }
+
+    if (req.method !== "POST") {
+      // GET opens the SSE stream of a session, DELETE ends it
+      if (transport) {
+        await transport.handleRequest(req, res);
+      } else {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, "No valid session ID provided");
+      }
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        sendJsonRpcError(res, 413, -32600, error.message);
+      } else {
+        sendJsonRpcError(res, 400, -32700, "Parse error");
+      }
+      return;
+    }
+
+    if (transport) {
+      await transport.handleRequest(req, res, body);
+    } else if (!sessionId && isInitializeRequest(body)) {
+      await this.connect(req, res, body);
+    } else {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, "No valid session ID provided");
+    }
+  }
+
+  /**
+   * Open a new MCP session for an initialize request
+   */
+  private async connect(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.transports.set(id, transport);
+        this.lastActivity.set(id, Date.now());
+      },
+    });
+    // Set before connecting; the server chains its own close handler
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.transports.delete(transport.sessionId);
+        this.lastActivity.delete(transport.sessionId);
+      }
+    };
+
+    await this.createMcpServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Periodically close sessions whose clients went away without ending them
+   */
+  private startIdleSweep(): void {
+    const idleTimeout = this.options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    if (idleTimeout <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [id, lastActivity] of this.lastActivity) {
+        if (now - lastActivity > idleTimeout) {
+          void this.transports.get(id)?.close();
+        }
+      }
+    }, Math.min(idleTimeout, MAX_SWEEP_INTERVAL));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Name of the Host or Origin header naming a host that is not allowed
+   */
+  private getRejectedHostHeader(req: IncomingMessage): "Host" | "Origin" | undefined {
+    if (!this.allowedHosts) {
+      return undefined;
+    }
+
+    const host = hostnameOf(req.headers.host ?? "", false);
+    if (!host || !this.allowedHosts.includes(host)) {
+      return "Host";
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.allowedHosts.includes(hostnameOf(origin, true) ?? "")) {
+      return "Origin";
+    }
+    return undefined;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const expected = Buffer.from(`Bearer ${this.options.authToken}`);
+    const actual = Buffer.from(req.headers.authorization ?? "");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
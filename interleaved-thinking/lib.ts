@@ -1,4 +1,46 @@
-import chalk from "chalk";
+import {
+  ToolExecutionContext,
+  ToolExecutor,
+  ToolExecutorRegistry,
+  ToolFunction,
+  loadExecutorsFromConfig,
+} from "./executors.js";
+import {
+  DownstreamServerConfig,
+  DownstreamServerManager,
+  loadDownstreamConfig,
+} from "./downstream.js";
+import {
+  BudgetExceededError,
+  CancelledError,
+  PolicyError,
+  TimeoutError,
+  ToolError,
+  ValidationError,
+  classifyToolError,
+} from "./errors.js";
+import { ToolCallPriority, ToolCallScheduler } from "./scheduler.js";
+import {
+  DEFAULT_SESSION_ID,
+  SESSION_END_MESSAGES,
+  SessionInfo,
+  SessionManager,
+} from "./session.js";
+import { JsonLinesSessionStore, SessionEvent, SessionStore } from "./persistence.js";
+import { checkStepSequence, ValidationMode } from "./validation.js";
+import { PhaseMachine, PhaseTransitions } from "./phases.js";
+import {
+  computeToolCallStatistics,
+  LatencyStatistics,
+  ToolCallStatistics,
+  ToolMetrics,
+} from "./statistics.js";
+import { ResultCache, ResultCacheConfig } from "./cache.js";
+import { ToolPolicy, ToolPolicyConfig, loadPolicyConfig } from "./policy.js";
+import { BudgetConfig, BudgetReport, BudgetTracker } from "./budget.js";
+import { LogContext, Logger, LoggerConfig, LogListener } from "./logging.js";
+
+export { Logger } from "./logging.js";
 
 /**
  * Phase of the interleaved thinking process
@@ -14,7 +56,9 @@ export interface ToolCallData {
   metadata?: {
     timeout?: number;
     retryCount?: number;
-    priority?: "high" | "normal" | "low";
+    priority?: ToolCallPriority;
+    // Confirms a call to a tool whose policy requires confirmation
+    confirmed?: boolean;
   };
 }
 
@@ -32,12 +76,32 @@ export interface ToolResultData {
   };
   executionTime: number;
   timestamp: string;
+  attempts?: ToolAttemptRecord[];
+  // Served from the result cache instead of running the executor
+  cached?: boolean;
+}
+
+/**
+ * A single execution attempt of a tool call
+ */
+export interface ToolAttemptRecord {
+  attempt: number;
+  success: boolean;
+  error?: {
+    type: string;
+    message: string;
+  };
+  executionTime: number;
+  timestamp: string;
 }
 
 /**
  * Interleaved step data - extends Sequential Thinking's ThoughtData concept
  */
 export interface InterleavedStepData {
+  // Session the step belongs to (defaults to a shared session)
+  sessionId?: string;
+
   // Core fields (from Sequential Thinking)
   thought: string;
   stepNumber: number;
@@ -56,6 +120,10 @@ export interface InterleavedStepData {
   phase?: ThoughtPhase;
   toolCall?: ToolCallData;
   toolResult?: ToolResultData;
+
+  // Batch of independent tool calls executed in parallel
+  toolCalls?: ToolCallData[];
+  toolResults?: ToolResultData[];
 }
 
 /**
@@ -63,6 +131,8 @@ export interface InterleavedStepData {
  */
 export interface ToolCallRecord {
   stepNumber: number;
+  // Branch of the step; missing in records persisted by older versions
+  branchId?: string;
   toolCall: ToolCallData;
   result: ToolResultData;
 }
@@ -72,17 +142,74 @@ export interface ToolCallRecord {
  */
 export interface StepHistory {
   steps: InterleavedStepData[];
+  // Steps with superseded versions left out
+  effectiveSteps: InterleavedStepData[];
+  // Revised step numbers with their current and superseded versions
+  revisions: Record<number, StepRevisions>;
   branches: Record<string, InterleavedStepData[]>;
+  branchTree: Record<string, BranchInfo>;
+  activeBranch: string;
   toolCalls: ToolCallRecord[];
   statistics: {
     totalSteps: number;
     totalToolCalls: number;
     successfulToolCalls: number;
     failedToolCalls: number;
+    timedOutToolCalls: number;
+    cacheHits: number;
+    cacheHitRatio: number;
+    retries: number;
     totalExecutionTime: number;
+    latency: LatencyStatistics;
+    tools: Record<string, ToolMetrics>;
   };
 }
 
+/**
+ * Branch that steps belong to when they have no branchId
+ */
+export const MAIN_BRANCH = "main";
+
+/**
+ * Position and state of a branch in the branch tree
+ */
+export interface BranchInfo {
+  id: string;
+  parentBranch: string;
+  forkStep: number;
+  status: "active" | "abandoned" | "merged";
+  mergedInto?: string;
+  createdAt: string;
+}
+
+/**
+ * Steps and tool outcomes of one side of a branch comparison
+ */
+export interface BranchView {
+  branchId: string;
+  steps: InterleavedStepData[];
+  toolResults: ToolResultData[];
+  successfulToolCalls: number;
+  failedToolCalls: number;
+}
+
+/**
+ * Side-by-side view of two branches
+ */
+export interface BranchComparison {
+  commonAncestor: string;
+  left: BranchView;
+  right: BranchView;
+}
+
+/**
+ * Revision chain of a step
+ */
+export interface StepRevisions {
+  current: InterleavedStepData;
+  superseded: InterleavedStepData[];
+}
+
 /**
  * Server configuration
  */
@@ -90,10 +217,49 @@ export interface ServerConfig {
   maxToolCalls: number;
   defaultTimeout: number;
   disableLogging: boolean;
+  // Log level, pretty or JSON-lines format, redacted keys and log file
+  logging?: Partial<LoggerConfig>;
   enableResultCache: boolean;
+  // Cache bounds, per-tool policy and persistence; the cache is shared by all sessions
+  resultCache?: Partial<ResultCacheConfig>;
   testMode?: boolean;
+  executors?: Record<string, ToolExecutor | ToolFunction>;
+  downstreamServers?: DownstreamServerConfig[];
+  retry?: Partial<RetryConfig>;
+  maxConcurrency?: number;
+  sessionTtl: number;
+  maxSessions: number;
+  // Session history persistence; persistenceDir uses the JSON-lines store
+  sessionStore?: SessionStore;
+  persistenceDir?: string;
+  // Maximum characters of a tool result payload returned in responses
+  maxResultSize: number;
+  validationMode: ValidationMode;
+  // Overrides of the allowed phase transitions (see DEFAULT_PHASE_TRANSITIONS)
+  phaseTransitions?: Partial<PhaseTransitions>;
+  // Allow/deny lists and parameter guardrails checked before tools run
+  toolPolicy?: ToolPolicyConfig;
+  // Budgets of every session; maxToolCalls above is the default call budget
+  budget?: Partial<BudgetConfig>;
+  // Budgets of individual sessions, keyed by session id
+  sessionBudgets?: Record<string, Partial<BudgetConfig>>;
 }
 
+/**
+ * Defaults of the server configuration
+ */
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  maxToolCalls: 50,
+  defaultTimeout: 30000,
+  disableLogging: false,
+  enableResultCache: true,
+  testMode: false,
+  sessionTtl: 30 * 60 * 1000,
+  maxSessions: 100,
+  maxResultSize: 10000,
+  validationMode: "lenient",
+};
+
 /**
  * Tool call manager configuration
  */
@@ -101,16 +267,69 @@ export interface ToolCallConfig {
   maxToolCalls: number;
   defaultTimeout: number;
   enableCache: boolean;
+  // Shared result cache; a private one is created when omitted
+  cache?: ResultCache;
+  policy?: ToolPolicy;
+  // Per-tool, execution-time and wall-clock budgets next to maxToolCalls
+  budget?: Partial<BudgetConfig>;
+  registry?: ToolExecutorRegistry;
+  retry?: Partial<RetryConfig>;
+  maxConcurrency?: number;
 }
 
 /**
- * Tool call statistics
+ * Backoff between retries of a failed tool call
+ * (the number of retries comes from ToolCallData.metadata.retryCount)
+ */
+export interface RetryConfig {
+  // Upper bound for retryCount, whatever the model asks for
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  factor: number;
+  jitter: number;
+}
+
+/**
+ * Tool result as returned to the model in a step response
+ */
+export interface FormattedToolResult {
+  toolName: string;
+  success: boolean;
+  executionTime: number;
+  result?: any;
+  error?: ToolResultData["error"];
+  truncated?: boolean;
+  originalSize?: number;
+  attempts?: number;
+  cached?: boolean;
+}
+
+/**
+ * Progress of a tool call: queued for a slot, started, retrying, reported by
+ * the executor, or completed
+ */
+export interface ToolProgressEvent {
+  toolName: string;
+  stage: "queued" | "started" | "retry" | "progress" | "completed";
+  // Human-readable description, e.g. "search: retry 1 of 2"
+  message: string;
+  attempt?: number;
+  // Executor-reported progress
+  progress?: number;
+  total?: number;
+  success?: boolean;
+}
+
+export type ToolProgressListener = (event: ToolProgressEvent) => void;
+
+/**
+ * Per-request options for executing tool calls
  */
-export interface ToolCallStatistics {
-  totalCalls: number;
-  successfulCalls: number;
-  failedCalls: number;
-  totalExecutionTime: number;
+export interface ToolCallOptions {
+  // Aborting the signal cancels the calls
+  signal?: AbortSignal;
+  onProgress?: ToolProgressListener;
 }
 
 /**
@@ -125,164 +344,497 @@ export interface ProcessResult {
  * Manages tool call execution, limits, and result caching
  */
 export class ToolCallManager {
-  private maxToolCalls: number;
+  private budget: BudgetTracker;
   private defaultTimeout: number;
   private enableCache: boolean;
-  private callCount: number = 0;
-  private resultCache: Map<string, ToolResultData> = new Map();
+  private resultCache: ResultCache;
+  private ownsCache: boolean;
+  private results: ToolResultData[] = [];
   private mockResults?: Map<string, ToolResultData>;
+  private registry: ToolExecutorRegistry;
+  private policy: ToolPolicy;
+  private retry: RetryConfig;
+  private scheduler: ToolCallScheduler;
+  // Aborted by cancel() to stop every running and queued call
+  private cancelController: AbortController = new AbortController();
 
   constructor(config: ToolCallConfig) {
-    this.maxToolCalls = config.maxToolCalls;
+    this.budget = new BudgetTracker({
+      ...config.budget,
+      maxToolCalls: config.budget?.maxToolCalls ?? config.maxToolCalls,
+    });
     this.defaultTimeout = config.defaultTimeout;
     this.enableCache = config.enableCache;
+    this.resultCache = config.cache ?? new ResultCache();
+    this.ownsCache = !config.cache;
+    this.registry = config.registry ?? new ToolExecutorRegistry();
+    this.policy = config.policy ?? new ToolPolicy();
+    this.retry = {
+      maxRetries: config.retry?.maxRetries ?? 5,
+      baseDelay: config.retry?.baseDelay ?? 200,
+      maxDelay: config.retry?.maxDelay ?? 5000,
+      factor: config.retry?.factor ?? 2,
+      jitter: config.retry?.jitter ?? 0.2,
+    };
+    this.scheduler = new ToolCallScheduler(config.maxConcurrency ?? 4);
+  }
+
+  /**
+   * Register an executor for a tool name
+   */
+  public registerExecutor(
+    toolName: string,
+    executor: ToolExecutor | ToolFunction
+  ): void {
+    this.registry.register(toolName, executor);
+  }
+
+  /**
+   * Register an executor for all tools in a `<namespace>.` prefix
+   */
+  public registerNamespaceExecutor(
+    namespace: string,
+    executor: ToolExecutor
+  ): void {
+    this.registry.registerNamespace(namespace, executor);
+  }
+
+  /**
+   * Remove the executor for a namespace
+   */
+  public unregisterNamespaceExecutor(namespace: string): boolean {
+    return this.registry.unregisterNamespace(namespace);
   }
 
   /**
-   * Execute a tool call (currently returns mock results)
+   * Remove the executor for a tool name
+   */
+  public unregisterExecutor(toolName: string): boolean {
+    return this.registry.unregister(toolName);
+  }
+
+  /**
+   * List tool names that have a registered executor
+   */
+  public getRegisteredTools(): string[] {
+    return this.registry.list();
+  }
+
+  /**
+   * Execute a tool call through its registered executor
    */
   public async executeToolCall(
-    toolCall: ToolCallData
+    toolCall: ToolCallData,
+    options: ToolCallOptions = {}
   ): Promise<ToolResultData> {
-    if (!this.canExecuteToolCall()) {
-      throw new Error("Tool call limit reached");
+    const rejection = this.checkLimits(toolCall);
+    if (rejection) {
+      this.results.push(rejection);
+      return rejection;
     }
 
-    this.callCount++;
+    const cancelSignal = options.signal
+      ? AbortSignal.any([this.cancelController.signal, options.signal])
+      : this.cancelController.signal;
+    const notify = (event: Omit<ToolProgressEvent, "toolName">) => {
+      try {
+        options.onProgress?.({ toolName: toolCall.toolName, ...event });
+      } catch {
+        // A failing listener must not fail the tool call
+      }
+    };
+
+    notify({ stage: "queued", message: `${toolCall.toolName}: queued` });
+    const result = await this.scheduler.schedule(
+      () => this.runToolCall(toolCall, cancelSignal, notify),
+      toolCall.metadata?.priority
+    );
+    notify({
+      stage: "completed",
+      success: result.success,
+      message: `${toolCall.toolName}: ${
+        result.success
+          ? `completed in ${result.executionTime}ms${result.cached ? " (cached)" : ""}`
+          : `failed with ${result.error?.type}`
+      }`,
+    });
+
+    if (!result.cached) {
+      this.budget.recordExecution(result.executionTime);
+    }
+    this.results.push(result);
+    return result;
+  }
+
+  /**
+   * Check a call against the tool policy and reserve it in the budget;
+   * calls rejected by the policy don't use the budget
+   */
+  private checkLimits(toolCall: ToolCallData): ToolResultData | undefined {
+    try {
+      this.policy.check(
+        toolCall.toolName,
+        toolCall.parameters,
+        toolCall.metadata?.confirmed
+      );
+      this.budget.reserve(toolCall.toolName);
+      return undefined;
+    } catch (error) {
+      if (!(error instanceof PolicyError || error instanceof BudgetExceededError)) {
+        throw error;
+      }
+      return this.createRejectedResult(toolCall, error);
+    }
+  }
+
+  /**
+   * Failed result of a call rejected before it ran
+   */
+  private createRejectedResult(toolCall: ToolCallData, error: ToolError): ToolResultData {
+    return {
+      toolName: toolCall.toolName,
+      success: false,
+      error: {
+        type: error.type,
+        message: error.message,
+        recoveryStrategy: error.recoveryStrategy,
+      },
+      executionTime: 0,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Execute a batch of independent tool calls in parallel, bounded by the
+   * concurrency limit. Results are returned in the order of the calls.
+   * A batch that doesn't fit the remaining budget is rejected as a whole.
+   */
+  public async executeToolCalls(
+    toolCalls: ToolCallData[],
+    options: ToolCallOptions = {}
+  ): Promise<ToolResultData[]> {
+    try {
+      this.budget.check(toolCalls.map((toolCall) => toolCall.toolName));
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) {
+        throw error;
+      }
+      const rejections = toolCalls.map((toolCall) =>
+        this.createRejectedResult(toolCall, error)
+      );
+      this.results.push(...rejections);
+      return rejections;
+    }
+
+    return Promise.all(
+      toolCalls.map((toolCall) => this.executeToolCall(toolCall, options))
+    );
+  }
+
+  /**
+   * Run a single tool call once a scheduler slot is free
+   */
+  private async runToolCall(
+    toolCall: ToolCallData,
+    cancelSignal: AbortSignal,
+    notify: (event: Omit<ToolProgressEvent, "toolName">) => void
+  ): Promise<ToolResultData> {
     const startTime = Date.now();
 
     // Check if we have a mock result (for testing)
     if (this.mockResults) {
-      const mockKey = this.getCacheKey(toolCall);
+      const mockKey = this.getMockKey(toolCall);
       const mockResult = this.mockResults.get(mockKey);
       if (mockResult) {
         return mockResult;
       }
     }
 
+    const executor = this.registry.get(toolCall.toolName);
+    if (!executor) {
+      return this.createNotFoundResult(toolCall, startTime);
+    }
+
     // Check cache
-    if (this.enableCache) {
-      const cacheKey = this.getCacheKey(toolCall);
-      const cached = this.resultCache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
+    const cacheable =
+      this.enableCache &&
+      this.resultCache.isCacheable(
+        toolCall.toolName,
+        typeof executor.cacheable === "function"
+          ? await executor.cacheable(toolCall.toolName)
+          : executor.cacheable
+      );
+    const cacheKey = cacheable
+      ? this.resultCache.getKey(toolCall.toolName, toolCall.parameters)
+      : undefined;
+    const cached = cacheKey ? this.resultCache.get(cacheKey) : undefined;
+    if (cached) {
+      return {
+        toolName: cached.toolName,
+        success: true,
+        result: cached.result,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        cached: true,
+      };
     }
 
-    // Simulate tool execution (mock implementation)
     const timeout = toolCall.metadata?.timeout || this.defaultTimeout;
+    const retries = Math.min(
+      Math.max(0, toolCall.metadata?.retryCount ?? 0),
+      this.retry.maxRetries
+    );
+    const maxAttempts = 1 + retries;
+    const attempts: ToolAttemptRecord[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStart = Date.now();
+      notify(
+        attempt === 1
+          ? { stage: "started", attempt, message: `${toolCall.toolName}: started` }
+          : {
+              stage: "retry",
+              attempt,
+              message: `${toolCall.toolName}: retry ${attempt - 1} of ${maxAttempts - 1}`,
+            }
+      );
+
+      try {
+        const result = await this.runAttempt(
+          executor,
+          toolCall,
+          timeout,
+          cancelSignal,
+          (progress, total, message) =>
+            notify({
+              stage: "progress",
+              attempt,
+              progress,
+              total,
+              message: `${toolCall.toolName}: ${
+                message ?? (total ? `${progress}/${total}` : `${progress}`)
+              }`,
+            })
+        );
+
+        attempts.push({
+          attempt,
+          success: true,
+          executionTime: Date.now() - attemptStart,
+          timestamp: new Date().toISOString(),
+        });
+
+        const completed = {
+          ...result,
+          executionTime: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+          attempts,
+        };
+
+        // Cache the result
+        if (cacheKey) {
+          this.resultCache.set(cacheKey, completed);
+        }
+
+        return completed;
+      } catch (error) {
+        const classified = classifyToolError(error);
+
+        attempts.push({
+          attempt,
+          success: false,
+          error: { type: classified.type, message: classified.message },
+          executionTime: Date.now() - attemptStart,
+          timestamp: new Date().toISOString(),
+        });
+
+        if (!classified.retryable || attempt >= maxAttempts) {
+          return {
+            toolName: toolCall.toolName,
+            success: false,
+            error: {
+              type: classified.type,
+              message: classified.message,
+              recoveryStrategy: classified.recoveryStrategy,
+            },
+            executionTime: Date.now() - startTime,
+            timestamp: new Date().toISOString(),
+            attempts,
+          };
+        }
+
+        await this.wait(this.getRetryDelay(attempt), cancelSignal);
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff delay before the next attempt, with random jitter
+   */
+  private getRetryDelay(attempt: number): number {
+    const { baseDelay, maxDelay, factor, jitter } = this.retry;
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt - 1));
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + spread));
+  }
+
+  /**
+   * Run one attempt of a tool call. The executor's signal is aborted with a
+   * TimeoutError when the timeout passes, or a CancelledError when the call
+   * is cancelled; the attempt rejects with that error without waiting for the
+   * executor to stop.
+   */
+  private async runAttempt(
+    executor: ToolExecutor,
+    toolCall: ToolCallData,
+    timeout: number,
+    cancelSignal: AbortSignal,
+    reportProgress: ToolExecutionContext["reportProgress"]
+  ): Promise<ToolResultData> {
+    if (cancelSignal.aborted) {
+      throw this.toCancelledError(cancelSignal.reason);
+    }
+
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(this.toCancelledError(cancelSignal.reason));
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+        once: true,
+      });
+    });
+    const timer = setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout);
+    cancelSignal.addEventListener("abort", onCancel, { once: true });
 
     try {
-      // Execute with timeout
-      const result = await Promise.race([
-        this.simulateToolExecution(toolCall),
-        this.createTimeoutPromise(timeout),
+      return await Promise.race([
+        this.runExecutor(executor, toolCall, {
+          toolName: toolCall.toolName,
+          timeout,
+          signal: controller.signal,
+          reportProgress,
+        }),
+        aborted,
       ]);
+    } finally {
+      clearTimeout(timer);
+      cancelSignal.removeEventListener("abort", onCancel);
+    }
+  }
 
-      // Cache the result
-      if (this.enableCache && result.success) {
-        const cacheKey = this.getCacheKey(toolCall);
-        this.resultCache.set(cacheKey, result);
-      }
+  /**
+   * Cancellation reasons other than our own errors come from the client
+   */
+  private toCancelledError(reason: unknown): ToolError {
+    return reason instanceof ToolError
+      ? reason
+      : new CancelledError("Tool call was cancelled by the client");
+  }
 
-      return {
-        ...result,
-        executionTime: Date.now() - startTime,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      const result: ToolResultData = {
-        toolName: toolCall.toolName,
-        success: false,
-        error: {
-          type:
-            error instanceof Error && error.message.includes("timeout")
-              ? "TimeoutError"
-              : "ToolExecutionError",
-          message: error instanceof Error ? error.message : String(error),
-          recoveryStrategy:
-            error instanceof Error && error.message.includes("timeout")
-              ? "Use simpler tool or increase timeout"
-              : "Retry with adjusted parameters or use alternative tool",
-        },
-        executionTime: Date.now() - startTime,
-        timestamp: new Date().toISOString(),
+  /**
+   * Wait before a retry, ending early if the call is cancelled
+   */
+  private wait(delay: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", done);
+        resolve();
       };
-
-      return result;
-    }
+      const timer = setTimeout(done, delay);
+      signal.addEventListener("abort", done, { once: true });
+    });
   }
 
   /**
-   * Simulate tool execution (mock implementation)
+   * Run a registered executor and wrap its output in a result
    */
-  private async simulateToolExecution(
-    toolCall: ToolCallData
+  private async runExecutor(
+    executor: ToolExecutor,
+    toolCall: ToolCallData,
+    context: ToolExecutionContext
   ): Promise<ToolResultData> {
-    // Simulate async work
-    await new Promise((resolve) => setTimeout(resolve, 10));
+    const output = await executor.execute(toolCall.parameters, context);
 
     return {
       toolName: toolCall.toolName,
       success: true,
-      result: {
-        message: `Mock result for ${toolCall.toolName}`,
-        parameters: toolCall.parameters,
-      },
+      result: output,
       executionTime: 0, // Will be set by caller
       timestamp: "", // Will be set by caller
     };
   }
 
   /**
-   * Create a promise that rejects after timeout
+   * Build the error result for a tool without an executor
    */
-  private createTimeoutPromise(timeout: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Tool execution timeout after ${timeout}ms`));
-      }, timeout);
-    });
+  private createNotFoundResult(
+    toolCall: ToolCallData,
+    startTime: number
+  ): ToolResultData {
+    const available = this.registry.list();
+
+    return {
+      toolName: toolCall.toolName,
+      success: false,
+      error: {
+        type: "ToolNotFoundError",
+        message: `No executor registered for tool "${toolCall.toolName}"`,
+        recoveryStrategy:
+          available.length > 0
+            ? `Use one of the available tools: ${available.join(", ")}`
+            : "No tools are registered; continue reasoning without tool calls",
+      },
+      executionTime: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
   }
 
   /**
    * Check if more tool calls can be executed
    */
   public canExecuteToolCall(): boolean {
-    return this.callCount < this.maxToolCalls;
+    return this.budget.hasRemaining();
   }
 
   /**
-   * Get tool call statistics
+   * Get the used and remaining budgets, with warnings past the threshold
    */
-  public getStatistics(): ToolCallStatistics {
-    let successfulCalls = 0;
-    let failedCalls = 0;
-    let totalExecutionTime = 0;
+  public getBudget(): BudgetReport {
+    return this.budget.getReport();
+  }
 
-    for (const result of this.resultCache.values()) {
-      if (result.success) {
-        successfulCalls++;
-      } else {
-        failedCalls++;
-      }
-      totalExecutionTime += result.executionTime;
-    }
+  /**
+   * Change the budgets; calls made so far still count
+   */
+  public setBudget(budget: Partial<BudgetConfig>): void {
+    this.budget.update(budget);
+  }
 
-    return {
-      totalCalls: this.callCount,
-      successfulCalls,
-      failedCalls,
-      totalExecutionTime,
-    };
+  /**
+   * Get statistics of the completed tool calls, overall and per tool
+   */
+  public getStatistics(): ToolCallStatistics {
+    return computeToolCallStatistics(this.results);
   }
 
   /**
    * Reset the manager state
    */
   public reset(): void {
-    this.callCount = 0;
-    this.resultCache.clear();
+    this.cancel("Tool calls were cancelled by a reset");
+    this.budget.reset();
+    if (this.ownsCache) {
+      this.resultCache.clear();
+    }
+    this.results = [];
+  }
+
+  /**
+   * Cancel all running and queued tool calls; later calls are not affected
+   */
+  public cancel(reason: string = "Tool calls were cancelled"): void {
+    this.cancelController.abort(new CancelledError(reason));
+    this.cancelController = new AbortController();
   }
 
   /**
@@ -293,9 +845,9 @@ export class ToolCallManager {
   }
 
   /**
-   * Generate cache key for a tool call
+   * Key of a tool call in the injected mock results
    */
-  private getCacheKey(toolCall: ToolCallData): string {
+  private getMockKey(toolCall: ToolCallData): string {
     return `${toolCall.toolName}:${JSON.stringify(toolCall.parameters)}`;
   }
 }
@@ -307,189 +859,482 @@ export class StateManager {
   private steps: InterleavedStepData[] = [];
   private branches: Record<string, InterleavedStepData[]> = {};
   private toolCalls: ToolCallRecord[] = [];
+  private persistence?: { sessionId: string; store: SessionStore };
+  // The version each revision replaced, and each revised version's successor
+  private revisionOf: Map<InterleavedStepData, InterleavedStepData> = new Map();
+  private supersededBy: Map<InterleavedStepData, InterleavedStepData> = new Map();
+  private branchTree: Map<string, BranchInfo> = new Map();
+  private activeBranch: string = MAIN_BRANCH;
+
+  constructor(persistence?: { sessionId: string; store: SessionStore }) {
+    this.persistence = persistence;
+  }
+
+  /**
+   * Rebuild history from persisted events without writing them again
+   */
+  public restore(events: SessionEvent[]): void {
+    const persistence = this.persistence;
+    this.persistence = undefined;
+
+    try {
+      for (const event of events) {
+        if (event.type === "step") {
+          this.addStep(event.step);
+        } else if (event.type === "toolCall") {
+          this.addToolCall(event.record);
+        } else if (event.action === "switch") {
+          this.switchBranch(event.branchId);
+        } else if (event.action === "abandon") {
+          this.abandonBranch(event.branchId);
+        } else {
+          this.mergeBranch(event.branchId, event.into);
+        }
+      }
+    } finally {
+      this.persistence = persistence;
+    }
+  }
 
   /**
    * Add a new step to history
    */
   public addStep(step: InterleavedStepData): void {
-    this.steps.push(step);
+    this.validateStep(step);
+
+    // Unlabeled steps, and steps naming a branch without starting it,
+    // continue the active branch
+    const branchId = this.getStepBranch(step);
+    if (branchId !== (step.branchId ?? MAIN_BRANCH)) {
+      step.branchId = branchId === MAIN_BRANCH ? undefined : branchId;
+    }
+
+    if (step.isRevision && step.revisesStep !== undefined) {
+      const current = this.getStep(step.revisesStep, step.branchId ?? this.activeBranch)!;
+      this.revisionOf.set(step, current);
+      this.supersededBy.set(current, step);
+    }
 
     // Handle branching
-    if (step.branchFromStep && step.branchId) {
-      if (!this.branches[step.branchId]) {
-        this.branches[step.branchId] = [];
-      }
+    if (
+      step.branchId &&
+      step.branchFromStep &&
+      !this.branchTree.has(step.branchId) &&
+      step.branchId !== MAIN_BRANCH
+    ) {
+      this.branchTree.set(step.branchId, {
+        id: step.branchId,
+        parentBranch: this.findForkPoint(step.branchFromStep)?.branchId ?? this.activeBranch,
+        forkStep: step.branchFromStep,
+        status: "active",
+        createdAt: new Date().toISOString(),
+      });
+      this.branches[step.branchId] = [];
+    }
+
+    this.persist({ type: "step", step, timestamp: new Date().toISOString() });
+    this.steps.push(step);
+
+    if (step.branchId && this.branches[step.branchId]) {
       this.branches[step.branchId].push(step);
     }
   }
 
   /**
-   * Add a tool call record
+   * Check that a step can be added, without changing any state
    */
-  public addToolCall(record: ToolCallRecord): void {
-    this.toolCalls.push(record);
+  public validateStep(step: InterleavedStepData): void {
+    if (
+      step.isRevision &&
+      step.revisesStep !== undefined &&
+      !this.getStep(step.revisesStep, this.getStepBranch(step))
+    ) {
+      throw new ValidationError(
+        `revisesStep ${step.revisesStep} does not reference an existing step`,
+        "Revise one of the recorded steps or omit isRevision"
+      );
+    }
+
+    const branch = this.branchTree.get(this.getStepBranch(step));
+    if (branch && branch.status !== "active") {
+      throw new ValidationError(
+        `Branch "${branch.id}" is ${branch.status}`,
+        "Switch to an active branch or start a new one with branchFromStep"
+      );
+    }
   }
 
   /**
-   * Get complete history with statistics
+   * Make a branch the target of steps without a branchId
    */
-  public getHistory(): StepHistory {
-    const statistics = this.calculateStatistics();
+  public switchBranch(branchId: string): void {
+    if (branchId !== MAIN_BRANCH) {
+      const branch = this.requireBranch(branchId);
+      if (branch.status !== "active") {
+        throw new ValidationError(
+          `Branch "${branchId}" is ${branch.status}`,
+          "Switch to an active branch"
+        );
+      }
+    }
 
-    return {
-      steps: [...this.steps],
-      branches: { ...this.branches },
-      toolCalls: [...this.toolCalls],
-      statistics,
-    };
+    this.persist({
+      type: "branch",
+      action: "switch",
+      branchId,
+      timestamp: new Date().toISOString(),
+    });
+    this.activeBranch = branchId;
   }
 
   /**
-   * Get a specific step by number
+   * Mark a branch as abandoned; the active branch falls back to its parent
    */
-  public getStep(stepNumber: number): InterleavedStepData | undefined {
-    return this.steps.find((s) => s.stepNumber === stepNumber);
+  public abandonBranch(branchId: string): void {
+    const branch = this.requireBranch(branchId);
+
+    this.persist({
+      type: "branch",
+      action: "abandon",
+      branchId,
+      timestamp: new Date().toISOString(),
+    });
+    branch.status = "abandoned";
+    if (this.activeBranch === branchId) {
+      this.activeBranch = branch.parentBranch;
+    }
   }
 
   /**
-   * Get the last tool result
+   * Merge a branch into another branch (its parent by default); the merged
+   * steps become part of the target branch's timeline
    */
-  public getLastToolResult(): ToolResultData | undefined {
-    if (this.toolCalls.length === 0) {
-      return undefined;
+  public mergeBranch(branchId: string, into?: string): void {
+    const branch = this.requireBranch(branchId);
+    const target = into ?? branch.parentBranch;
+
+    if (branch.status !== "active") {
+      throw new ValidationError(`Branch "${branchId}" is ${branch.status}`);
+    }
+    if (target === branchId) {
+      throw new ValidationError(`Branch "${branchId}" cannot be merged into itself`);
+    }
+    if (target !== MAIN_BRANCH && this.requireBranch(target).status !== "active") {
+      throw new ValidationError(`Branch "${target}" is not active`);
+    }
+
+    this.persist({
+      type: "branch",
+      action: "merge",
+      branchId,
+      into: target,
+      timestamp: new Date().toISOString(),
+    });
+    branch.status = "merged";
+    branch.mergedInto = target;
+    if (this.activeBranch === branchId) {
+      this.activeBranch = target;
     }
-    return this.toolCalls[this.toolCalls.length - 1].result;
   }
 
   /**
-   * Calculate statistics from history
+   * Get the steps of a branch, including steps of branches merged into it
    */
-  private calculateStatistics() {
-    let successfulToolCalls = 0;
-    let failedToolCalls = 0;
-    let totalExecutionTime = 0;
+  public getBranchSteps(branchId: string): InterleavedStepData[] {
+    if (branchId !== MAIN_BRANCH) {
+      this.requireBranch(branchId);
+    }
 
-    for (const record of this.toolCalls) {
-      if (record.result.success) {
-        successfulToolCalls++;
-      } else {
-        failedToolCalls++;
+    const members = new Set([branchId]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const branch of this.branchTree.values()) {
+        if (branch.mergedInto && members.has(branch.mergedInto) && !members.has(branch.id)) {
+          members.add(branch.id);
+          grew = true;
+        }
       }
-      totalExecutionTime += record.result.executionTime;
     }
 
+    return this.steps.filter((step) => members.has(step.branchId ?? MAIN_BRANCH));
+  }
+
+  /**
+   * Compare the steps and tool outcomes of two branches
+   */
+  public compareBranches(left: string, right: string): BranchComparison {
+    const ancestors = new Set(this.getAncestry(left));
+    const commonAncestor =
+      this.getAncestry(right).find((branchId) => ancestors.has(branchId)) ??
+      MAIN_BRANCH;
+
     return {
-      totalSteps: this.steps.length,
-      totalToolCalls: this.toolCalls.length,
-      successfulToolCalls,
-      failedToolCalls,
-      totalExecutionTime,
+      commonAncestor,
+      left: this.getBranchView(left),
+      right: this.getBranchView(right),
     };
   }
-}
 
-/**
- * Handles formatted logging output to stderr
- */
-export class Logger {
-  private disableLogging: boolean;
+  /**
+   * Get the active branch
+   */
+  public getActiveBranch(): string {
+    return this.activeBranch;
+  }
 
-  constructor(disableLogging: boolean = false) {
-    this.disableLogging = disableLogging;
+  /**
+   * Check whether a branch exists; main always does
+   */
+  public hasBranch(branchId: string): boolean {
+    return branchId === MAIN_BRANCH || this.branchTree.has(branchId);
   }
 
   /**
-   * Log a thinking step
+   * Branch a step belongs to: its branchId if that branch exists or the step
+   * starts it with branchFromStep, otherwise the active branch
    */
-  public logThinkingStep(step: InterleavedStepData): void {
-    if (this.disableLogging) return;
+  public getStepBranch(step: InterleavedStepData): string {
+    const branchId = step.branchId ?? this.activeBranch;
+    return this.hasBranch(branchId) || step.branchFromStep !== undefined
+      ? branchId
+      : this.activeBranch;
+  }
 
-    const prefix = chalk.blue("💭 Thinking");
-    const context = this.buildContext(step);
-    const header = `${prefix} ${step.stepNumber}/${step.totalSteps}${context}`;
-    const formatted = this.formatBox(header, step.thought);
+  /**
+   * Get a branch or fail with a validation error
+   */
+  private requireBranch(branchId: string): BranchInfo {
+    const branch = this.branchTree.get(branchId);
+    if (!branch) {
+      throw new ValidationError(
+        `Branch "${branchId}" does not exist`,
+        `Use one of: ${[MAIN_BRANCH, ...this.branchTree.keys()].join(", ")}`
+      );
+    }
+    return branch;
+  }
 
-    console.error(formatted);
+  /**
+   * A branch followed by its ancestors up to main
+   */
+  private getAncestry(branchId: string): string[] {
+    const ancestry = [branchId];
+    let branch = branchId === MAIN_BRANCH ? undefined : this.requireBranch(branchId);
+    while (branch) {
+      ancestry.push(branch.parentBranch);
+      branch = this.branchTree.get(branch.parentBranch);
+    }
+    return ancestry;
   }
 
   /**
-   * Log a tool call
+   * Steps and tool results of a single branch
    */
-  public logToolCall(toolCall: ToolCallData): void {
-    if (this.disableLogging) return;
+  private getBranchView(branchId: string): BranchView {
+    const steps = this.getBranchSteps(branchId);
+    const toolResults = steps.flatMap((step) => [
+      ...(step.toolResult ? [step.toolResult] : []),
+      ...(step.toolResults ?? []),
+    ]);
+    const successfulToolCalls = toolResults.filter((result) => result.success).length;
 
-    const prefix = chalk.cyan("🔧 Tool Call");
-    const content = `${toolCall.toolName}(${JSON.stringify(
-      toolCall.parameters
-    )})`;
-    const formatted = this.formatBox(prefix, content);
+    return {
+      branchId,
+      steps,
+      toolResults,
+      successfulToolCalls,
+      failedToolCalls: toolResults.length - successfulToolCalls,
+    };
+  }
 
-    console.error(formatted);
+  /**
+   * Add a tool call record
+   */
+  public addToolCall(record: ToolCallRecord): void {
+    this.persist({ type: "toolCall", record, timestamp: new Date().toISOString() });
+    this.toolCalls.push(record);
   }
 
   /**
-   * Log a tool result
+   * Write an event to the session store, if one is configured
    */
-  public logToolResult(result: ToolResultData): void {
-    if (this.disableLogging) return;
+  private persist(event: SessionEvent): void {
+    this.persistence?.store.append(this.persistence.sessionId, event);
+  }
 
-    const prefix = result.success
-      ? chalk.green("✅ Tool Result")
-      : chalk.red("❌ Tool Error");
-    const content = result.success
-      ? `${result.toolName}: ${JSON.stringify(result.result)} (${
-          result.executionTime
-        }ms)`
-      : `${result.toolName}: ${result.error?.message} (${result.executionTime}ms)`;
-    const formatted = this.formatBox(prefix, content);
+  /**
+   * Get complete history with statistics
+   */
+  public getHistory(): StepHistory {
+    const statistics = this.calculateStatistics();
 
-    console.error(formatted);
+    const revisions: Record<number, StepRevisions> = {};
+    for (const original of this.supersededBy.keys()) {
+      if (this.revisionOf.has(original)) {
+        continue;
+      }
+      const versions = this.getVersionsFrom(original);
+      revisions[original.stepNumber] = {
+        current: versions[versions.length - 1],
+        superseded: versions.slice(0, -1),
+      };
+    }
+
+    return {
+      steps: [...this.steps],
+      effectiveSteps: this.steps.filter((step) => !this.supersededBy.has(step)),
+      revisions,
+      branches: { ...this.branches },
+      branchTree: Object.fromEntries(
+        [...this.branchTree].map(([id, branch]) => [id, { ...branch }])
+      ),
+      activeBranch: this.activeBranch,
+      toolCalls: [...this.toolCalls],
+      statistics,
+    };
+  }
+
+  /**
+   * Get a specific step by number
+   */
+  public getStep(stepNumber: number, branchId?: string): InterleavedStepData | undefined {
+    const versions = this.getStepVersions(stepNumber, branchId);
+    return versions[versions.length - 1];
   }
 
   /**
-   * Log an analysis step
+   * Get every version of a step, oldest first; the last one is the current
+   * effective version. With a branch, only steps that branch can see are
+   * considered: its own steps and its ancestors' steps up to the fork.
    */
-  public logAnalysisStep(step: InterleavedStepData): void {
-    if (this.disableLogging) return;
+  public getStepVersions(stepNumber: number, branchId?: string): InterleavedStepData[] {
+    const steps = branchId === undefined ? this.steps : this.getVisibleSteps(branchId);
+    let version = [...steps].reverse().find((s) => s.stepNumber === stepNumber);
 
-    const prefix = chalk.magenta("📊 Analysis");
-    const context = this.buildContext(step);
-    const header = `${prefix} ${step.stepNumber}/${step.totalSteps}${context}`;
-    const formatted = this.formatBox(header, step.thought);
+    // A revision numbered like the step it revises: start from the original
+    while (version && version.revisesStep === stepNumber && this.revisionOf.has(version)) {
+      version = this.revisionOf.get(version);
+    }
+    return version ? this.getVersionsFrom(version) : [];
+  }
+
+  /**
+   * Follow a step through the revisions that replaced it
+   */
+  private getVersionsFrom(step: InterleavedStepData): InterleavedStepData[] {
+    const versions: InterleavedStepData[] = [];
+    let version: InterleavedStepData | undefined = step;
+    while (version) {
+      versions.push(version);
+      version = this.supersededBy.get(version);
+    }
+    return versions;
+  }
+
+  /**
+   * Steps a branch can refer to, in order: its own steps and those of its
+   * ancestors up to the step it forked from. Unknown branches see all steps.
+   */
+  private getVisibleSteps(branchId: string): InterleavedStepData[] {
+    if (branchId !== MAIN_BRANCH && !this.branchTree.has(branchId)) {
+      return [...this.steps];
+    }
+
+    const visible = new Set<InterleavedStepData>();
+    let id: string | undefined = branchId;
+    let lastStep = Infinity;
+    while (id !== undefined) {
+      for (const step of this.getBranchSteps(id)) {
+        if (step.stepNumber <= lastStep) {
+          visible.add(step);
+        }
+      }
+      const branch = this.branchTree.get(id);
+      if (branch) {
+        lastStep = Math.min(lastStep, branch.forkStep);
+      }
+      id = branch?.parentBranch;
+    }
+    return this.steps.filter((step) => visible.has(step));
+  }
 
-    console.error(formatted);
+  /**
+   * Find the step a new branch forks from: in the active branch, or else in
+   * the branch the latest step was added to (a branch can be continued by
+   * naming its branchId without switching to it)
+   */
+  public findForkPoint(
+    branchFromStep: number
+  ): { branchId: string; step: InterleavedStepData } | undefined {
+    const latestBranch = this.steps[this.steps.length - 1]?.branchId ?? MAIN_BRANCH;
+
+    for (const branchId of new Set([this.activeBranch, latestBranch])) {
+      if (branchId !== MAIN_BRANCH && !this.branchTree.has(branchId)) {
+        continue;
+      }
+      const step = this.getStep(branchFromStep, branchId);
+      if (step) {
+        return { branchId, step };
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Build context string for step (revision, branch info)
+   * Get the step a new step follows: the latest current step numbered before
+   * it on the same branch, or the fork step when the branch has none yet
    */
-  private buildContext(step: InterleavedStepData): string {
-    let context = "";
+  public getPreviousStep(step: InterleavedStepData): InterleavedStepData | undefined {
+    const branchId = this.getStepBranch(step);
+    const branch = this.branchTree.get(branchId);
 
-    if (step.isRevision && step.revisesStep) {
-      context += ` ${chalk.yellow(`(revising step ${step.revisesStep})`)}`;
-    } else if (step.branchFromStep && step.branchId) {
-      context += ` ${chalk.green(
-        `(from step ${step.branchFromStep}, ID: ${step.branchId})`
-      )}`;
+    // A new branch follows the step it forks from
+    if (!this.hasBranch(branchId)) {
+      return this.findForkPoint(step.branchFromStep!)?.step;
     }
 
-    return context;
+    const candidates = this.getBranchSteps(branchId).filter(
+      (s) => s.stepNumber < step.stepNumber && !this.supersededBy.has(s)
+    );
+    return (
+      candidates[candidates.length - 1] ??
+      (branch ? this.getStep(branch.forkStep, branch.parentBranch) : undefined)
+    );
   }
 
   /**
-   * Format content in a box
+   * Get the last tool result
    */
-  private formatBox(header: string, content: string): string {
-    const maxLength = Math.max(header.length, content.length) + 4;
-    const border = "─".repeat(maxLength);
+  public getLastToolResult(): ToolResultData | undefined {
+    return this.getLastToolCall()?.result;
+  }
 
-    return `
-┌${border}┐
-│ ${header.padEnd(maxLength - 2)} │
-├${border}┤
-│ ${content.padEnd(maxLength - 2)} │
-└${border}┘`;
+  /**
+   * Get the last tool call record
+   */
+  public getLastToolCall(): ToolCallRecord | undefined {
+    if (this.toolCalls.length === 0) {
+      return undefined;
+    }
+    return this.toolCalls[this.toolCalls.length - 1];
+  }
+
+  /**
+   * Calculate statistics from history
+   */
+  private calculateStatistics(): StepHistory["statistics"] {
+    const { totalCalls, successfulCalls, failedCalls, timedOutCalls, ...metrics } =
+      computeToolCallStatistics(this.toolCalls.map((record) => record.result));
+
+    return {
+      totalSteps: this.steps.length,
+      totalToolCalls: totalCalls,
+      successfulToolCalls: successfulCalls,
+      failedToolCalls: failedCalls,
+      timedOutToolCalls: timedOutCalls,
+      ...metrics,
+    };
   }
 }
 
@@ -497,65 +1342,225 @@ export class Logger {
  * Main server class for interleaved sequential thinking
  */
 export class InterleavedThinkingServer {
-  private toolCallManager: ToolCallManager;
-  private stateManager: StateManager;
+  private sessions: SessionManager;
+  private registry: ToolExecutorRegistry = new ToolExecutorRegistry();
+  private mockResults?: Map<string, ToolResultData>;
+  private store?: SessionStore;
+  private resultCache: ResultCache;
+  private policy: ToolPolicy;
+  private sessionBudgets: Map<string, Partial<BudgetConfig>>;
   private logger: Logger;
   private config: ServerConfig;
+  private downstream?: DownstreamServerManager;
+  private phases: PhaseMachine;
+  // Steps being processed, awaited by close() so their results are recorded
+  private pendingSteps: Set<Promise<ProcessResult>> = new Set();
 
   constructor(config?: Partial<ServerConfig>) {
+    const defaults = DEFAULT_SERVER_CONFIG;
     this.config = {
-      maxToolCalls: config?.maxToolCalls ?? 50,
-      defaultTimeout: config?.defaultTimeout ?? 30000,
-      disableLogging: config?.disableLogging ?? false,
-      enableResultCache: config?.enableResultCache ?? true,
-      testMode: config?.testMode ?? false,
+      maxToolCalls: config?.maxToolCalls ?? defaults.maxToolCalls,
+      defaultTimeout: config?.defaultTimeout ?? defaults.defaultTimeout,
+      disableLogging: config?.disableLogging ?? defaults.disableLogging,
+      enableResultCache: config?.enableResultCache ?? defaults.enableResultCache,
+      testMode: config?.testMode ?? defaults.testMode,
+      sessionTtl: config?.sessionTtl ?? defaults.sessionTtl,
+      maxSessions: config?.maxSessions ?? defaults.maxSessions,
+      maxResultSize: config?.maxResultSize ?? defaults.maxResultSize,
+      validationMode: config?.validationMode ?? defaults.validationMode,
     };
 
-    this.toolCallManager = new ToolCallManager({
-      maxToolCalls: this.config.maxToolCalls,
-      defaultTimeout: this.config.defaultTimeout,
-      enableCache: this.config.enableResultCache,
+    this.store =
+      config?.sessionStore ??
+      (config?.persistenceDir
+        ? new JsonLinesSessionStore(config.persistenceDir)
+        : undefined);
+
+    this.resultCache = new ResultCache(config?.resultCache);
+    this.policy = new ToolPolicy(config?.toolPolicy);
+    this.sessionBudgets = new Map(Object.entries(config?.sessionBudgets ?? {}));
+
+    this.sessions = new SessionManager({
+      sessionTtl: this.config.sessionTtl,
+      maxSessions: this.config.maxSessions,
+      createSession: (id) => {
+        const toolCallManager = new ToolCallManager({
+          maxToolCalls: this.config.maxToolCalls,
+          defaultTimeout: this.config.defaultTimeout,
+          enableCache: this.config.enableResultCache,
+          cache: this.resultCache,
+          policy: this.policy,
+          budget: { ...config?.budget, ...this.sessionBudgets.get(id) },
+          registry: this.registry,
+          retry: config?.retry,
+          maxConcurrency: config?.maxConcurrency,
+        });
+        if (this.mockResults) {
+          toolCallManager.injectMockResults(this.mockResults);
+        }
+        const stateManager = new StateManager(
+          this.store ? { sessionId: id, store: this.store } : undefined
+        );
+        if (this.store) {
+          stateManager.restore(this.store.load(id));
+        }
+        return { toolCallManager, stateManager };
+      },
+    });
+
+    for (const [toolName, executor] of Object.entries(config?.executors ?? {})) {
+      this.registry.register(toolName, executor);
+    }
+
+    if (config?.downstreamServers?.length) {
+      this.useDownstreamServers(config.downstreamServers);
+    }
+
+    this.phases = new PhaseMachine(config?.phaseTransitions);
+    this.logger = new Logger({
+      ...config?.logging,
+      disabled: this.config.disableLogging || config?.logging?.disabled,
     });
+  }
 
-    this.stateManager = new StateManager();
-    this.logger = new Logger(this.config.disableLogging);
+  /**
+   * Register an executor that handles tool calls for a tool name
+   */
+  public registerToolExecutor(
+    toolName: string,
+    executor: ToolExecutor | ToolFunction
+  ): void {
+    this.registry.register(toolName, executor);
   }
 
   /**
-   * Infer the phase based on input and history
+   * Pass step and tool log records to a listener as well; returns a function
+   * that removes it
    */
-  private inferPhase(input: InterleavedStepData): ThoughtPhase {
-    // If phase is explicitly provided, use it
-    if (input.phase) {
-      return input.phase;
+  public addLogListener(listener: LogListener): () => void {
+    return this.logger.addListener(listener);
+  }
+
+  /**
+   * Load and register executors, downstream MCP servers and the tool policy
+   * from a JSON tool configuration file
+   */
+  public async loadToolConfig(configPath: string): Promise<string[]> {
+    const executors = await loadExecutorsFromConfig(configPath);
+    for (const [toolName, executor] of executors) {
+      this.registry.register(toolName, executor);
+    }
+
+    const servers = await loadDownstreamConfig(configPath);
+    if (servers.length > 0) {
+      this.useDownstreamServers(servers);
+    }
+
+    const policy = await loadPolicyConfig(configPath);
+    if (policy) {
+      this.policy.extend(policy);
     }
 
-    // If toolCall is provided, it's a tool_call phase
-    if (input.toolCall) {
-      return "tool_call";
+    return this.getRegisteredTools();
+  }
+
+  /**
+   * Proxy `<server>.<tool>` calls to downstream MCP servers
+   */
+  private useDownstreamServers(servers: DownstreamServerConfig[]): void {
+    const previous = this.downstream;
+    for (const name of previous?.getServerNames() ?? []) {
+      this.registry.unregisterNamespace(name);
     }
+    this.downstream = new DownstreamServerManager(servers);
 
-    // If previous step was a tool_call, this is analysis phase
-    const lastStep = this.stateManager.getStep(input.stepNumber - 1);
-    if (lastStep?.phase === "tool_call") {
-      return "analysis";
+    for (const name of this.downstream.getServerNames()) {
+      this.registry.registerNamespace(name, this.downstream.createExecutor(name));
     }
 
-    // Default to thinking phase
-    return "thinking";
+    void previous?.close();
   }
 
   /**
-   * Process a step in the interleaved thinking process
+   * Cancel running tool calls, wait until their steps are recorded, then
+   * save the result cache and close connections to downstream MCP servers
    */
-  public async processStep(input: InterleavedStepData): Promise<ProcessResult> {
+  public async close(): Promise<void> {
+    for (const session of this.sessions.getSessions()) {
+      session.toolCallManager.cancel("Server is shutting down");
+    }
+    await Promise.allSettled(this.pendingSteps);
+    this.resultCache.close();
+    await this.downstream?.close();
+  }
+
+  /**
+   * List tool names that have a registered executor
+   */
+  public getRegisteredTools(): string[] {
+    return this.registry.list();
+  }
+
+  /**
+   * Summaries of all live sessions
+   */
+  public listSessions(): SessionInfo[] {
+    return this.sessions.listSessions();
+  }
+
+  /**
+   * Ids of live sessions and sessions in the persistent store
+   */
+  public getSessionIds(): string[] {
+    const ids = new Set(this.sessions.getSessions().map((session) => session.id));
+    for (const id of this.store?.listSessions() ?? []) {
+      ids.add(id);
+    }
+    return [...ids].sort();
+  }
+
+  /**
+   * Process a step in the interleaved thinking process. `options` carry the
+   * request's cancellation signal and progress listener for its tool calls.
+   */
+  public processStep(
+    input: InterleavedStepData,
+    options: ToolCallOptions = {}
+  ): Promise<ProcessResult> {
+    const step = this.runStep(input, options);
+    this.pendingSteps.add(step);
+    void step.finally(() => this.pendingSteps.delete(step));
+    return step;
+  }
+
+  private async runStep(
+    input: InterleavedStepData,
+    options: ToolCallOptions
+  ): Promise<ProcessResult> {
     try {
       // Validate required fields
       this.validateInput(input);
 
+      const session = this.sessions.getSession(input.sessionId);
+      const { stateManager, toolCallManager, id: sessionId } = session;
+
+      // Reject invalid revisions and branches before any tool runs
+      stateManager.validateStep(input);
+
       // Auto-infer phase if not provided
-      if (!input.phase) {
-        input.phase = this.inferPhase(input);
+      const previousPhase = stateManager.getPreviousStep(input)?.phase ?? "start";
+      input.phase = this.phases.infer(input, previousPhase);
+
+      const transitionIssue = this.phases.check(previousPhase, input.phase);
+      const warnings = [
+        ...checkStepSequence(input, stateManager),
+        ...(transitionIssue ? [transitionIssue] : []),
+      ];
+      if (warnings.length > 0 && this.config.validationMode === "strict") {
+        throw new ValidationError(
+          warnings.map((warning) => warning.message).join("; "),
+          "Fix the step numbering or branch fields and send the step again"
+        );
       }
 
       // Auto-adjust totalSteps if needed
@@ -563,60 +1568,122 @@ export class InterleavedThinkingServer {
         input.totalSteps = input.stepNumber;
       }
 
+      const logContext: LogContext = {
+        sessionId,
+        stepNumber: input.stepNumber,
+        branchId: stateManager.getStepBranch(input),
+      };
+
       // Process based on phase
       let toolResult: ToolResultData | undefined;
+      let toolResults: ToolResultData[] | undefined;
+      let analyzedToolCall:
+        | Pick<ToolCallData, "toolName" | "parameters"> & { stepNumber: number }
+        | undefined;
 
       switch (input.phase) {
         case "thinking":
-          this.logger.logThinkingStep(input);
+          this.logger.logThinkingStep(input, logContext);
           break;
 
-        case "tool_call":
-          if (!input.toolCall) {
-            throw new Error("toolCall is required for tool_call phase");
+        case "tool_call": {
+          const calls = [
+            ...(input.toolCall ? [input.toolCall] : []),
+            ...(input.toolCalls ?? []),
+          ];
+          if (calls.length === 0) {
+            throw new Error("toolCall or toolCalls is required for tool_call phase");
+          }
+          calls.forEach((call) => this.logger.logToolCall(call, logContext));
+          session.activeToolSteps++;
+          let results: ToolResultData[];
+          try {
+            results = await toolCallManager.executeToolCalls(calls, options);
+          } finally {
+            session.activeToolSteps--;
+            session.lastAccessedAt = Date.now();
+          }
+
+          // Don't record into a session that was removed while the calls ran
+          if (this.sessions.peekSession(sessionId) !== session) {
+            const ended = SESSION_END_MESSAGES[session.endReason ?? "closed"];
+            throw new CancelledError(`Session "${sessionId}" ${ended}`);
           }
-          this.logger.logToolCall(input.toolCall);
-          toolResult = await this.toolCallManager.executeToolCall(
-            input.toolCall
-          );
-          this.logger.logToolResult(toolResult);
-
-          // Record tool call
-          this.stateManager.addToolCall({
-            stepNumber: input.stepNumber,
-            toolCall: input.toolCall,
-            result: toolResult,
+
+          results.forEach((result, index) => {
+            this.logger.logToolResult(result, logContext);
+
+            // Record tool call
+            stateManager.addToolCall({
+              stepNumber: input.stepNumber,
+              branchId: logContext.branchId,
+              toolCall: calls[index],
+              result,
+            });
           });
 
-          // Add result to input for storage
-          input.toolResult = toolResult;
+          // Add results to input for storage
+          if (input.toolCall) {
+            toolResult = results.shift();
+            input.toolResult = toolResult;
+          }
+          if (input.toolCalls) {
+            toolResults = results;
+            input.toolResults = toolResults;
+          }
           break;
+        }
 
-        case "analysis":
-          this.logger.logAnalysisStep(input);
+        case "analysis": {
+          this.logger.logAnalysisStep(input, logContext);
           // Provide last tool result if available
-          toolResult = this.stateManager.getLastToolResult();
+          const lastToolCall = stateManager.getLastToolCall();
+          if (lastToolCall) {
+            toolResult = lastToolCall.result;
+            analyzedToolCall = {
+              stepNumber: lastToolCall.stepNumber,
+              toolName: lastToolCall.toolCall.toolName,
+              parameters: lastToolCall.toolCall.parameters,
+            };
+          }
           break;
+        }
       }
 
       // Add step to history
-      this.stateManager.addStep(input);
+      stateManager.addStep(input);
 
       // Build response
-      const history = this.stateManager.getHistory();
+      const history = stateManager.getHistory();
       const response = {
+        sessionId,
         stepNumber: input.stepNumber,
         totalSteps: input.totalSteps,
         nextStepNeeded: input.nextStepNeeded,
         branches: Object.keys(history.branches),
+        activeBranch: history.activeBranch,
         stepHistoryLength: history.steps.length,
         phase: input.phase,
         ...(toolResult && {
-          toolResult: {
-            success: toolResult.success,
-            executionTime: toolResult.executionTime,
-          },
+          toolResult: this.formatToolResult(toolResult),
         }),
+        ...(toolResults && {
+          toolResults: toolResults.map((result) => this.formatToolResult(result)),
+        }),
+        ...(analyzedToolCall && { analyzedToolCall }),
+        budget: toolCallManager.getBudget(),
+        ...(warnings.length > 0 && { warnings }),
+        ...(input.isRevision &&
+          input.revisesStep !== undefined && {
+            revision: {
+              revisesStep: input.revisesStep,
+              version:
+                stateManager.getStepVersions(
+                  input.revisesStep,
+                  input.branchId ?? MAIN_BRANCH
+                ).length - 1,
+            },
+          }),
       };
 
       return {
@@ -633,25 +1700,153 @@ export class InterleavedThinkingServer {
   }
 
   /**
-   * Get execution history
+   * Make a branch the target of steps without a branchId
    */
-  public getHistory(): StepHistory {
-    return this.stateManager.getHistory();
+  public switchBranch(branchId: string, sessionId?: string): void {
+    this.sessions.getSession(sessionId).stateManager.switchBranch(branchId);
   }
 
   /**
-   * Reset server state
+   * Abandon a branch
    */
-  public reset(): void {
-    this.toolCallManager.reset();
-    this.stateManager = new StateManager();
+  public abandonBranch(branchId: string, sessionId?: string): void {
+    this.sessions.getSession(sessionId).stateManager.abandonBranch(branchId);
+  }
+
+  /**
+   * Merge a branch into another branch (its parent by default)
+   */
+  public mergeBranch(branchId: string, into?: string, sessionId?: string): void {
+    this.sessions.getSession(sessionId).stateManager.mergeBranch(branchId, into);
+  }
+
+  /**
+   * Compare the steps and tool results of two branches
+   */
+  public compareBranches(
+    left: string,
+    right: string,
+    sessionId?: string
+  ): BranchComparison {
+    return this.sessions
+      .getSession(sessionId)
+      .stateManager.compareBranches(left, right);
+  }
+
+  /**
+   * Shape a tool result for the response, truncating large payloads so the
+   * model sees the output without exceeding maxResultSize characters
+   */
+  private formatToolResult(result: ToolResultData): FormattedToolResult {
+    const formatted: FormattedToolResult = {
+      toolName: result.toolName,
+      success: result.success,
+      executionTime: result.executionTime,
+      ...(result.attempts && { attempts: result.attempts.length }),
+      ...(result.cached && { cached: true }),
+    };
+
+    if (result.error) {
+      formatted.error = result.error;
+    }
+
+    if (result.result !== undefined) {
+      const serialized =
+        typeof result.result === "string"
+          ? result.result
+          : JSON.stringify(result.result) ?? String(result.result);
+
+      if (serialized.length > this.config.maxResultSize) {
+        formatted.result = `${serialized.slice(0, this.config.maxResultSize)}…`;
+        formatted.truncated = true;
+        formatted.originalSize = serialized.length;
+      } else {
+        formatted.result = result.result;
+      }
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get execution history of a session
+   */
+  public getHistory(sessionId: string = DEFAULT_SESSION_ID): StepHistory {
+    const session = this.sessions.peekSession(sessionId);
+    if (session) {
+      return session.stateManager.getHistory();
+    }
+
+    // Read evicted or not yet restored sessions straight from the store
+    const stateManager = new StateManager();
+    stateManager.restore(this.store?.load(sessionId) ?? []);
+    return stateManager.getHistory();
+  }
+
+  /**
+   * Set budgets of a session, applied now and whenever the session is created
+   */
+  public setSessionBudget(sessionId: string, budget: Partial<BudgetConfig>): void {
+    this.sessionBudgets.set(sessionId, { ...this.sessionBudgets.get(sessionId), ...budget });
+    this.sessions.peekSession(sessionId)?.toolCallManager.setBudget(budget);
+  }
+
+  /**
+   * Reset one session, or all sessions when no id is given
+   */
+  public reset(sessionId?: string): void {
+    const sessionIds =
+      sessionId === undefined
+        ? new Set([
+            ...this.sessions.getSessions().map((session) => session.id),
+            ...(this.store?.listSessions() ?? []),
+          ])
+        : [sessionId];
+
+    for (const id of sessionIds) {
+      this.sessions.deleteSession(id, "reset");
+      this.store?.delete(id);
+    }
+  }
+
+  /**
+   * Drop the live state of a session, e.g. when its connection closes, and
+   * cancel its running tool calls; persisted history is kept
+   */
+  public closeSession(sessionId: string): void {
+    this.sessions.deleteSession(sessionId, "closed");
+  }
+
+  /**
+   * Load persisted sessions into memory, returning the restored ids.
+   * Without ids, every stored session is restored up to the session cap.
+   * Sessions are also restored on first use, so this is only needed to
+   * load them ahead of time.
+   */
+  public restoreSessions(sessionIds?: string[]): string[] {
+    if (!this.store) {
+      return [];
+    }
+
+    const restored: string[] = [];
+    for (const id of sessionIds ?? this.store.listSessions()) {
+      if (!sessionIds && this.sessions.getSessions().length >= this.config.maxSessions) {
+        break;
+      }
+      this.sessions.getSession(id);
+      restored.push(id);
+    }
+    return restored;
   }
 
   /**
    * Inject mock results for testing
    */
   public injectMockResults(mockResults: Map<string, ToolResultData>): void {
-    this.toolCallManager.injectMockResults(mockResults);
+    this.mockResults = mockResults;
+    for (const session of this.sessions.getSessions()) {
+      session.toolCallManager.injectMockResults(mockResults);
+    }
   }
 
   /**
@@ -684,9 +1879,12 @@ export class InterleavedThinkingServer {
     let errorType = "Error";
     let recoveryStrategy = "Check input parameters and try again";
 
-    if (errorMessage.includes("limit reached")) {
-      errorType = "ToolCallLimitError";
-      recoveryStrategy = "Summarize progress and terminate or reset the server";
+    if (error instanceof ToolError) {
+      errorType = error.type;
+      recoveryStrategy = error.recoveryStrategy;
+    } else if (errorMessage.includes("Session limit reached")) {
+      errorType = "SessionLimitError";
+      recoveryStrategy = "Reuse an existing sessionId or retry after idle sessions expire";
     } else if (errorMessage.includes("timeout")) {
       errorType = "TimeoutError";
       recoveryStrategy = "Use simpler tool or increase timeout";
@@ -0,0 +1,503 @@
+import chalk from "chalk";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  InterleavedStepData,
+  ThoughtPhase,
+  ToolCallData,
+  ToolResultData,
+} from "./lib.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * One logged event: a thinking or analysis step, a tool call or its result
+ */
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  event: "thinking" | "analysis" | "tool_call" | "tool_result";
+  sessionId?: string;
+  stepNumber?: number;
+  totalSteps?: number;
+  phase?: ThoughtPhase;
+  branchId?: string;
+  branchFromStep?: number;
+  revisesStep?: number;
+  toolName?: string;
+  // Tool call parameters with redacted keys replaced
+  parameters?: Record<string, any>;
+  durationMs?: number;
+  success?: boolean;
+  errorType?: string;
+  // The thought, or the tool result or error message
+  message: string;
+}
+
+/**
+ * Step a tool call or result belongs to
+ */
+export interface LogContext {
+  sessionId?: string;
+  stepNumber?: number;
+  branchId?: string;
+}
+
+export type LogFormatter = (record: LogRecord) => string;
+
+/**
+ * Destination of formatted log lines
+ */
+export interface LogSink {
+  write(line: string): void;
+}
+
+/**
+ * Receives each record that passes the level, e.g. to send it to MCP
+ * clients. Returns whether it delivered the record.
+ */
+export type LogListener = (record: LogRecord) => boolean;
+
+export interface LoggerConfig {
+  disabled: boolean;
+  // Records below this level are dropped
+  level: LogLevel;
+  format: "pretty" | "json";
+  // Maximum width of pretty boxes; defaults to the terminal width
+  width?: number;
+  // Tool results longer than this many characters are truncated in logs
+  maxResultLength: number;
+  // Parameter keys whose values are replaced with "[REDACTED]" (case-insensitive)
+  redactKeys: string[];
+  // Append to this file instead of writing to stderr
+  file?: string;
+  // Custom destination; wins over `file`
+  sink?: LogSink;
+}
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Writes to stderr, which stays free for logs when MCP uses stdout
+ */
+export const stderrSink: LogSink = {
+  write: (line) => console.error(line),
+};
+
+/**
+ * Append lines to a file, creating its directory on first write
+ */
+export function createFileSink(path: string): LogSink {
+  let ready = false;
+  return {
+    write: (line) => {
+      if (!ready) {
+        mkdirSync(dirname(path), { recursive: true });
+        ready = true;
+      }
+      appendFileSync(path, `${line}\n`);
+    },
+  };
+}
+
+/**
+ * One JSON object per line
+ */
+export const formatJson: LogFormatter = (record) => JSON.stringify(record);
+
+// Box width when neither configured nor known from the terminal
+const DEFAULT_BOX_WIDTH = 80;
+// Narrowest text column of a box, so tiny terminals still get readable lines
+const MIN_BOX_TEXT_WIDTH = 20;
+
+// ANSI escape sequences (colors) or single code points
+const TOKEN_PATTERN = /\u001b\[[0-9;]*[A-Za-z]|[\s\S]/gu;
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+const SGR_RESET = "\u001b[0m";
+
+/**
+ * The SGR parameter that ends a style, e.g. 39 for a foreground color
+ */
+function sgrCloser(code: number): number | undefined {
+  if (code === 1 || code === 2) return 22;
+  if (code >= 3 && code <= 9) return code + 20;
+  if ((code >= 30 && code <= 38) || (code >= 90 && code <= 97)) return 39;
+  if ((code >= 40 && code <= 48) || (code >= 100 && code <= 107)) return 49;
+  return undefined;
+}
+
+/**
+ * Styles still open after an SGR sequence (`ESC[...m`), given those open before
+ */
+function applySgr(open: string[], sequence: string): string[] {
+  const code = Number(sequence.slice(2, -1).split(";")[0] || 0);
+  if (code === 0) {
+    return [];
+  }
+  if ([22, 23, 24, 25, 27, 28, 29, 39, 49].includes(code)) {
+    return open.filter(
+      (style) => sgrCloser(Number(style.slice(2, -1).split(";")[0])) !== code
+    );
+  }
+  return [...open, sequence];
+}
+
+/**
+ * Whether a code point takes two terminal columns (CJK, fullwidth forms)
+ */
+function isWideCodePoint(code: number): boolean {
+  return (
+    code >= 0x1100 &&
+    (code <= 0x115f ||
+      code === 0x2329 ||
+      code === 0x232a ||
+      (code >= 0x2e80 && code <= 0x3247 && code !== 0x303f) ||
+      (code >= 0x3250 && code <= 0x4dbf) ||
+      (code >= 0x4e00 && code <= 0xa4c6) ||
+      (code >= 0xa960 && code <= 0xa97c) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe10 && code <= 0xfe19) ||
+      (code >= 0xfe30 && code <= 0xfe6b) ||
+      (code >= 0xff01 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1b000 && code <= 0x1b001) ||
+      (code >= 0x1f200 && code <= 0x1f251) ||
+      (code >= 0x20000 && code <= 0x3fffd))
+  );
+}
+
+/**
+ * Terminal columns of a single code point
+ */
+function charWidth(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (
+    code < 0x20 ||
+    (code >= 0x7f && code < 0xa0) ||
+    /[\p{Mark}\u200b-\u200f\ufe0f]/u.test(char)
+  ) {
+    return 0;
+  }
+  return isWideCodePoint(code) || /\p{Emoji_Presentation}/u.test(char) ? 2 : 1;
+}
+
+/**
+ * Terminal columns of a string, ignoring ANSI escape sequences
+ */
+export function visibleWidth(text: string): number {
+  let width = 0;
+  for (const char of text.replace(ANSI_PATTERN, "")) {
+    width += charWidth(char);
+  }
+  return width;
+}
+
+/**
+ * Split one line into lines of at most `width` columns, breaking after
+ * spaces where possible. Colors open at a break are reset at the end of the
+ * line and reopened on the next, so they don't spill into the box border.
+ */
+function wrapLine(line: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let currentWidth = 0;
+  // Position in `current` just after its last space
+  let breakAt = -1;
+  // Styles open at the end of `current` and at `breakAt`
+  let open: string[] = [];
+  let openAtBreak: string[] = [];
+  const close = (text: string, styles: string[]) =>
+    styles.length > 0 ? text + SGR_RESET : text;
+
+  for (const token of line.match(TOKEN_PATTERN) ?? []) {
+    const tokenWidth = token.startsWith("\u001b") ? 0 : charWidth(token);
+
+    while (currentWidth > 0 && currentWidth + tokenWidth > width) {
+      if (breakAt > 0) {
+        lines.push(close(current.slice(0, breakAt).trimEnd(), openAtBreak));
+        current = openAtBreak.join("") + current.slice(breakAt);
+      } else {
+        lines.push(close(current, open));
+        current = open.join("");
+      }
+      currentWidth = visibleWidth(current);
+      breakAt = -1;
+    }
+
+    current += token;
+    currentWidth += tokenWidth;
+    if (token.startsWith("\u001b[") && token.endsWith("m")) {
+      open = applySgr(open, token);
+    }
+    if (token === " ") {
+      breakAt = current.length;
+      openAtBreak = open;
+    }
+  }
+
+  lines.push(close(current, open));
+  return lines;
+}
+
+/**
+ * Format a header and content in a box of at most `width` columns, wrapping
+ * long and multi-line text
+ */
+export function formatBox(
+  header: string,
+  content: string,
+  width: number = DEFAULT_BOX_WIDTH
+): string {
+  const textWidth = Math.max(MIN_BOX_TEXT_WIDTH, width - 4);
+  const wrap = (text: string) =>
+    text
+      .replace(/\t/g, "  ")
+      .split(/\r?\n/)
+      .flatMap((line) => wrapLine(line, textWidth));
+
+  const headerLines = wrap(header);
+  const contentLines = wrap(content);
+  const innerWidth = Math.max(...[...headerLines, ...contentLines].map(visibleWidth));
+  const border = "─".repeat(innerWidth + 2);
+  const row = (line: string) =>
+    `│ ${line}${" ".repeat(innerWidth - visibleWidth(line))} │`;
+
+  return [
+    "",
+    `┌${border}┐`,
+    ...headerLines.map(row),
+    `├${border}┤`,
+    ...contentLines.map(row),
+    `└${border}┘`,
+  ].join("\n");
+}
+
+/**
+ * Shorten text beyond `maxLength` characters, noting how much was cut
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  // Don't split a surrogate pair
+  const end = /[\ud800-\udbff]/.test(text[maxLength - 1]) ? maxLength - 1 : maxLength;
+  return `${text.slice(0, end)}…(${Buffer.byteLength(text.slice(end))} more bytes)`;
+}
+
+/**
+ * Build context string for step (revision, branch info)
+ */
+function buildContext(record: LogRecord): string {
+  let context = "";
+
+  if (record.revisesStep) {
+    context += ` ${chalk.yellow(`(revising step ${record.revisesStep})`)}`;
+  } else if (record.branchFromStep && record.branchId) {
+    context += ` ${chalk.green(
+      `(from step ${record.branchFromStep}, ID: ${record.branchId})`
+    )}`;
+  }
+
+  return context;
+}
+
+/**
+ * Colored boxes for reading in a terminal, `width` columns wide at most
+ * (default: the width of the terminal)
+ */
+export function createPrettyFormatter(width?: number): LogFormatter {
+  return (record) => {
+    const boxWidth = width ?? (process.stderr.columns || DEFAULT_BOX_WIDTH);
+    const formatBoxed = (header: string, content: string) =>
+      formatBox(header, content, boxWidth);
+
+    switch (record.event) {
+      case "thinking":
+      case "analysis": {
+        const prefix =
+          record.event === "thinking"
+            ? chalk.blue("💭 Thinking")
+            : chalk.magenta("📊 Analysis");
+        const header = `${prefix} ${record.stepNumber}/${record.totalSteps}${buildContext(
+          record
+        )}`;
+        return formatBoxed(header, record.message);
+      }
+
+      case "tool_call":
+        return formatBoxed(chalk.cyan("🔧 Tool Call"), record.message);
+
+      case "tool_result":
+        return formatBoxed(
+          record.success ? chalk.green("✅ Tool Result") : chalk.red("❌ Tool Error"),
+          `${record.message} (${record.durationMs}ms)`
+        );
+    }
+  };
+}
+
+/**
+ * Replace the values of redacted keys, at any depth
+ */
+export function redact(value: any, keys: Set<string>): any {
+  if (keys.size === 0 || !value || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, keys));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      keys.has(key.toLowerCase()) ? REDACTED : redact(item, keys),
+    ])
+  );
+}
+
+/**
+ * Logs steps and tool calls as records through a formatter and sink
+ */
+export class Logger {
+  private config: LoggerConfig;
+  private formatter: LogFormatter;
+  private sink: LogSink;
+  private redactKeys: Set<string>;
+  private listeners = new Set<LogListener>();
+
+  constructor(config: boolean | Partial<LoggerConfig> = false) {
+    const options = typeof config === "boolean" ? { disabled: config } : config;
+    this.config = {
+      disabled: options.disabled ?? false,
+      level: options.level ?? "info",
+      format: options.format ?? "pretty",
+      width: options.width,
+      maxResultLength: options.maxResultLength ?? 2000,
+      redactKeys: options.redactKeys ?? [],
+      file: options.file,
+      sink: options.sink,
+    };
+    this.formatter =
+      this.config.format === "json" ? formatJson : createPrettyFormatter(this.config.width);
+    this.sink =
+      this.config.sink ?? (this.config.file ? createFileSink(this.config.file) : stderrSink);
+    this.redactKeys = new Set(this.config.redactKeys.map((key) => key.toLowerCase()));
+  }
+
+  /**
+   * Also pass records to a listener. Records a listener delivers are not
+   * written to stderr, which stays the fallback; file and custom sinks still
+   * receive every record. Returns a function that removes the listener.
+   */
+  public addListener(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Log a thinking step
+   */
+  public logThinkingStep(step: InterleavedStepData, context: LogContext = {}): void {
+    this.log(this.createStepRecord("thinking", step, context));
+  }
+
+  /**
+   * Log an analysis step
+   */
+  public logAnalysisStep(step: InterleavedStepData, context: LogContext = {}): void {
+    this.log(this.createStepRecord("analysis", step, context));
+  }
+
+  /**
+   * Log a tool call
+   */
+  public logToolCall(toolCall: ToolCallData, context: LogContext = {}): void {
+    const parameters = redact(toolCall.parameters, this.redactKeys);
+    this.log({
+      timestamp: new Date().toISOString(),
+      level: "info",
+      event: "tool_call",
+      ...context,
+      phase: "tool_call",
+      toolName: toolCall.toolName,
+      parameters,
+      message: `${toolCall.toolName}(${JSON.stringify(parameters)})`,
+    });
+  }
+
+  /**
+   * Log a tool result
+   */
+  public logToolResult(result: ToolResultData, context: LogContext = {}): void {
+    this.log({
+      timestamp: new Date().toISOString(),
+      level: result.success ? "info" : "warn",
+      event: "tool_result",
+      ...context,
+      phase: "tool_call",
+      toolName: result.toolName,
+      durationMs: result.executionTime,
+      success: result.success,
+      ...(result.error && { errorType: result.error.type }),
+      message: result.success
+        ? `${result.toolName}: ${truncateText(
+            JSON.stringify(redact(result.result, this.redactKeys)) ?? String(result.result),
+            this.config.maxResultLength
+          )}`
+        : `${result.toolName}: ${result.error?.message}`,
+    });
+  }
+
+  private createStepRecord(
+    event: "thinking" | "analysis",
+    step: InterleavedStepData,
+    context: LogContext
+  ): LogRecord {
+    return {
+      timestamp: new Date().toISOString(),
+      level: "info",
+      event,
+      sessionId: context.sessionId ?? step.sessionId,
+      stepNumber: step.stepNumber,
+      totalSteps: step.totalSteps,
+      phase: event,
+      branchId: context.branchId ?? step.branchId,
+      ...(step.branchFromStep !== undefined && { branchFromStep: step.branchFromStep }),
+      ...(step.isRevision && step.revisesStep !== undefined && { revisesStep: step.revisesStep }),
+      message: step.thought,
+    };
+  }
+
+  private log(record: LogRecord): void {
+    if (
+      this.config.disabled ||
+      LOG_LEVELS.indexOf(record.level) < LOG_LEVELS.indexOf(this.config.level)
+    ) {
+      return;
+    }
+
+    let delivered = false;
+    for (const listener of this.listeners) {
+      try {
+        delivered = listener(record) || delivered;
+      } catch {
+        // Logging must never fail a step
+      }
+    }
+    if (delivered && this.sink === stderrSink) {
+      return;
+    }
+
+    try {
+      this.sink.write(this.formatter(record));
+    } catch {
+      // Logging must never fail a step
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import type { InterleavedThinkingServer } from "./lib.js";
+import type { LogLevel } from "./logging.js";
+
+/**
+ * Name of the logger in MCP log notifications
+ */
+export const MCP_LOGGER_NAME = "interleaved-thinking";
+
+const MCP_LOG_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+/**
+ * Send step and tool log records to the client of an MCP server as
+ * `notifications/message`, once it has initialized. The server must declare
+ * the logging capability; the SDK then drops records below the level the
+ * client set with `logging/setLevel`. Over HTTP a connection only receives
+ * the records of its own session; other records fall back to stderr.
+ */
+export function forwardLogNotifications(
+  server: McpServer,
+  thinkingServer: InterleavedThinkingServer
+): void {
+  const removeListener = thinkingServer.addLogListener((record) => {
+    const transport = server.server.transport;
+    if (!transport || !server.server.getClientCapabilities()) {
+      return false;
+    }
+    if (transport.sessionId && record.sessionId !== transport.sessionId) {
+      return false;
+    }
+
+    server.server
+      .sendLoggingMessage(
+        { level: MCP_LOG_LEVELS[record.level], logger: MCP_LOGGER_NAME, data: record },
+        transport.sessionId
+      )
+      .catch(() => {
+        // The client may have gone away; notifications are best effort
+      });
+    return true;
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    onclose?.();
+  };
+}
@@ -0,0 +1,89 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { InterleavedStepData, ToolCallRecord } from "./lib.js";
+
+/**
+ * A single change to a session's history
+ */
+export type SessionEvent =
+  | { type: "step"; step: InterleavedStepData; timestamp: string }
+  | { type: "toolCall"; record: ToolCallRecord; timestamp: string }
+  | {
+      type: "branch";
+      action: "switch" | "abandon" | "merge";
+      branchId: string;
+      into?: string;
+      timestamp: string;
+    };
+
+/**
+ * Storage backend for session history. Events are written as they happen
+ * and replayed in order to restore a session.
+ */
+export interface SessionStore {
+  append(sessionId: string, event: SessionEvent): void;
+  load(sessionId: string): SessionEvent[];
+  listSessions(): string[];
+  delete(sessionId: string): void;
+}
+
+const FILE_EXTENSION = ".jsonl";
+
+/**
+ * Stores each session as a JSON-lines file in a directory
+ */
+export class JsonLinesSessionStore implements SessionStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  public append(sessionId: string, event: SessionEvent): void {
+    appendFileSync(this.getPath(sessionId), JSON.stringify(event) + "\n");
+  }
+
+  public load(sessionId: string): SessionEvent[] {
+    const path = this.getPath(sessionId);
+    if (!existsSync(path)) {
+      return [];
+    }
+
+    const events: SessionEvent[] = [];
+    for (const line of readFileSync(path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A crash mid-write can leave a partial last line; skip it
+      }
+    }
+    return events;
+  }
+
+  public listSessions(): string[] {
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(FILE_EXTENSION))
+      .map((file) => decodeURIComponent(file.slice(0, -FILE_EXTENSION.length)))
+      .sort();
+  }
+
+  public delete(sessionId: string): void {
+    rmSync(this.getPath(sessionId), { force: true });
+  }
+
+  /**
+   * File path for a session; ids are encoded so any string is a safe name
+   */
+  private getPath(sessionId: string): string {
+    return join(this.directory, encodeURIComponent(sessionId) + FILE_EXTENSION);
+  }
+}
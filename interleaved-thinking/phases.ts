@@ -0,0 +1,72 @@
+import type { InterleavedStepData, ThoughtPhase } from "./lib.js";
+import type { SequenceIssue } from "./validation.js";
+
+/**
+ * Phase of the previous step, or "start" for the first step of a branch
+ */
+export type PhaseState = ThoughtPhase | "start";
+
+/**
+ * Phases allowed to follow each phase
+ */
+export type PhaseTransitions = Record<PhaseState, ThoughtPhase[]>;
+
+export const DEFAULT_PHASE_TRANSITIONS: PhaseTransitions = {
+  start: ["thinking", "tool_call"],
+  thinking: ["thinking", "tool_call"],
+  tool_call: ["analysis", "tool_call", "thinking"],
+  analysis: ["analysis", "thinking", "tool_call"],
+};
+
+/**
+ * State machine for the thinking → tool_call → analysis cycle. Infers the
+ * phase of a step and checks transitions against a configurable table.
+ */
+export class PhaseMachine {
+  private transitions: PhaseTransitions;
+
+  constructor(transitions?: Partial<PhaseTransitions>) {
+    this.transitions = { ...DEFAULT_PHASE_TRANSITIONS, ...transitions };
+  }
+
+  /**
+   * Infer the phase of a step from its fields and the previous phase
+   */
+  public infer(step: InterleavedStepData, previous: PhaseState): ThoughtPhase {
+    if (step.phase) {
+      return step.phase;
+    }
+
+    if (step.toolCall || step.toolCalls?.length) {
+      return "tool_call";
+    }
+
+    if (previous === "tool_call" && this.isAllowed(previous, "analysis")) {
+      return "analysis";
+    }
+
+    return "thinking";
+  }
+
+  /**
+   * Check that a phase may follow the previous one
+   */
+  public check(previous: PhaseState, next: ThoughtPhase): SequenceIssue | undefined {
+    if (this.isAllowed(previous, next)) {
+      return undefined;
+    }
+
+    const allowed = this.transitions[previous];
+    return {
+      rule: "illegal_transition",
+      message:
+        previous === "start"
+          ? `A branch cannot start with a ${next} step; expected ${allowed.join(" or ")}`
+          : `${next} cannot follow ${previous}; expected ${allowed.join(" or ")}`,
+    };
+  }
+
+  public isAllowed(previous: PhaseState, next: ThoughtPhase): boolean {
+    return this.transitions[previous].includes(next);
+  }
+}
@@ -0,0 +1,148 @@
+import { readFile } from "node:fs/promises";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv-provider.js";
+import type {
+  JsonSchemaType,
+  JsonSchemaValidator,
+} from "@modelcontextprotocol/sdk/validation/types.js";
+import { PolicyError } from "./errors.js";
+
+/**
+ * Guardrails for the calls of a tool
+ */
+export interface ToolRule {
+  // JSON schema the call parameters must match
+  schema?: JsonSchemaType;
+  // Maximum length of the JSON-encoded parameters
+  maxPayloadSize?: number;
+  // Calls must set metadata.confirmed, e.g. for destructive tools
+  requireConfirmation?: boolean;
+}
+
+/**
+ * Which tools may run and with which parameters. Patterns match tool names
+ * with `*` (any characters) and `?` (one character); deny wins over allow.
+ */
+export interface ToolPolicyConfig {
+  // When set, only tools matching one of these patterns may run
+  allow?: string[];
+  deny?: string[];
+  // Default maximum length of the JSON-encoded parameters
+  maxPayloadSize?: number;
+  // Rules keyed by tool name or pattern; all matching rules apply
+  tools?: Record<string, ToolRule>;
+}
+
+/**
+ * Convert a tool name pattern to an anchored regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks tool calls against allow/deny lists and per-tool rules before they run
+ */
+export class ToolPolicy {
+  private allow?: RegExp[];
+  private deny: RegExp[] = [];
+  private maxPayloadSize?: number;
+  private rules: Array<{ pattern: RegExp; rule: ToolRule }> = [];
+  private schemaValidator = new AjvJsonSchemaValidator();
+  private validators: Map<ToolRule, JsonSchemaValidator<unknown>> = new Map();
+
+  constructor(config?: ToolPolicyConfig) {
+    if (config) {
+      this.extend(config);
+    }
+  }
+
+  /**
+   * Add the lists and rules of another configuration to this policy
+   */
+  public extend(config: ToolPolicyConfig): void {
+    if (config.allow) {
+      this.allow = [...(this.allow ?? []), ...config.allow.map(patternToRegExp)];
+    }
+    this.deny.push(...(config.deny ?? []).map(patternToRegExp));
+    this.maxPayloadSize = config.maxPayloadSize ?? this.maxPayloadSize;
+
+    for (const [pattern, rule] of Object.entries(config.tools ?? {})) {
+      if (rule.schema) {
+        // Compile up front so an invalid schema fails when the policy is loaded
+        this.validators.set(rule, this.schemaValidator.getValidator(rule.schema));
+      }
+      this.rules.push({ pattern: patternToRegExp(pattern), rule });
+    }
+  }
+
+  /**
+   * Throw a PolicyError if a tool call may not run
+   */
+  public check(
+    toolName: string,
+    parameters: Record<string, any>,
+    confirmed: boolean = false
+  ): void {
+    if (this.deny.some((pattern) => pattern.test(toolName))) {
+      throw new PolicyError(
+        `Tool "${toolName}" is denied by policy`,
+        "Use a different tool or continue reasoning without it"
+      );
+    }
+
+    if (this.allow && !this.allow.some((pattern) => pattern.test(toolName))) {
+      throw new PolicyError(
+        `Tool "${toolName}" is not in the allowed tools`,
+        "Use one of the allowed tools"
+      );
+    }
+
+    const rules = this.rules
+      .filter(({ pattern }) => pattern.test(toolName))
+      .map(({ rule }) => rule);
+    const payloadSize = (JSON.stringify(parameters) ?? "").length;
+
+    for (const rule of [{ maxPayloadSize: this.maxPayloadSize }, ...rules]) {
+      if (rule.maxPayloadSize !== undefined && payloadSize > rule.maxPayloadSize) {
+        throw new PolicyError(
+          `Parameters of "${toolName}" are ${payloadSize} characters, above the limit of ${rule.maxPayloadSize}`,
+          "Send smaller parameters, e.g. by splitting the work into several calls"
+        );
+      }
+    }
+
+    for (const rule of rules) {
+      const validate = this.validators.get(rule);
+      const validation = validate?.(parameters);
+      if (validation && !validation.valid) {
+        throw new PolicyError(
+          `Parameters of "${toolName}" do not match its schema: ${validation.errorMessage}`,
+          "Fix the parameters to match the tool's schema"
+        );
+      }
+
+      if (rule.requireConfirmation && !confirmed) {
+        throw new PolicyError(
+          `Tool "${toolName}" requires confirmation`,
+          "Confirm the action is intended, then call again with metadata.confirmed set to true"
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Load a tool policy from the `policy` key of a tool configuration file
+ */
+export async function loadPolicyConfig(
+  configPath: string
+): Promise<ToolPolicyConfig | undefined> {
+  const raw = await readFile(configPath, "utf-8");
+  return (JSON.parse(raw) as { policy?: ToolPolicyConfig }).policy;
+}
@@ -0,0 +1,32 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ToolProgressListener } from "./lib.js";
+
+/**
+ * Forward tool call progress as MCP progress notifications when the client
+ * asked for them with a progress token. Progress counts the notifications
+ * sent, since the total amount of work is not known up front.
+ */
+export function createProgressListener(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ToolProgressListener | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+  return (event) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: ++progress, message: event.message },
+      })
+      .catch(() => {
+        // The client may have gone away; progress is best effort
+      });
+  };
+}
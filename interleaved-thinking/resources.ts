@@ -0,0 +1,191 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { InterleavedThinkingServer } from "./lib.js";
+
+const JSON_MIME_TYPE = "application/json";
+
+/**
+ * Read a single template variable, decoding percent-encoded ids
+ */
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Build a JSON resource response
+ */
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Expose session histories as browsable MCP resources:
+ *
+ * - thinking://sessions
+ * - thinking://sessions/{sessionId}/history
+ * - thinking://sessions/{sessionId}/steps/{stepNumber}
+ * - thinking://sessions/{sessionId}/branches/{branchId}
+ * - thinking://sessions/{sessionId}/tool-calls
+ */
+export function registerHistoryResources(
+  server: McpServer,
+  thinkingServer: InterleavedThinkingServer
+): void {
+  const sessionUri = (sessionId: string) =>
+    `thinking://sessions/${encodeURIComponent(sessionId)}`;
+  const completeSessionId = (value: string) =>
+    thinkingServer.getSessionIds().filter((id) => id.startsWith(value));
+
+  server.registerResource(
+    "thinking-sessions",
+    "thinking://sessions",
+    {
+      title: "Thinking sessions",
+      description: "Sessions with recorded thinking history",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri) =>
+      jsonContents(uri, {
+        sessions: thinkingServer.getSessionIds().map((id) => {
+          const { statistics } = thinkingServer.getHistory(id);
+          return { id, uri: `${sessionUri(id)}/history`, ...statistics };
+        }),
+      })
+  );
+
+  server.registerResource(
+    "thinking-history",
+    new ResourceTemplate("thinking://sessions/{sessionId}/history", {
+      list: async () => ({
+        resources: thinkingServer.getSessionIds().map((id) => ({
+          uri: `${sessionUri(id)}/history`,
+          name: `Thinking history: ${id}`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: { sessionId: completeSessionId },
+    }),
+    {
+      title: "Thinking history",
+      description: "Complete step history, branches, tool calls and statistics",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) =>
+      jsonContents(uri, thinkingServer.getHistory(variable(variables, "sessionId")))
+  );
+
+  server.registerResource(
+    "thinking-step",
+    new ResourceTemplate("thinking://sessions/{sessionId}/steps/{stepNumber}", {
+      list: async () => ({
+        resources: thinkingServer.getSessionIds().flatMap((id) => {
+          const stepNumbers = new Set(
+            thinkingServer.getHistory(id).steps.map((step) => step.stepNumber)
+          );
+          return [...stepNumbers].map((stepNumber) => ({
+            uri: `${sessionUri(id)}/steps/${stepNumber}`,
+            name: `Step ${stepNumber}: ${id}`,
+            mimeType: JSON_MIME_TYPE,
+          }));
+        }),
+      }),
+      complete: { sessionId: completeSessionId },
+    }),
+    {
+      title: "Thinking step",
+      description:
+        "The current version of a step with its tool call and result, plus superseded versions if it was revised",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const sessionId = variable(variables, "sessionId");
+      const stepNumber = Number(variable(variables, "stepNumber"));
+      const history = thinkingServer.getHistory(sessionId);
+      const revisions = history.revisions[stepNumber];
+      const step =
+        revisions?.current ??
+        history.effectiveSteps.find((s) => s.stepNumber === stepNumber);
+
+      if (!step) {
+        throw new Error(`Step ${stepNumber} not found in session "${sessionId}"`);
+      }
+      return jsonContents(uri, {
+        ...step,
+        ...(revisions && { supersededVersions: revisions.superseded }),
+      });
+    }
+  );
+
+  server.registerResource(
+    "thinking-branch",
+    new ResourceTemplate("thinking://sessions/{sessionId}/branches/{branchId}", {
+      list: async () => ({
+        resources: thinkingServer.getSessionIds().flatMap((id) =>
+          Object.keys(thinkingServer.getHistory(id).branches).map((branchId) => ({
+            uri: `${sessionUri(id)}/branches/${encodeURIComponent(branchId)}`,
+            name: `Branch ${branchId}: ${id}`,
+            mimeType: JSON_MIME_TYPE,
+          }))
+        ),
+      }),
+      complete: { sessionId: completeSessionId },
+    }),
+    {
+      title: "Thinking branch",
+      description: "Steps of a branch explored from an earlier step",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const sessionId = variable(variables, "sessionId");
+      const branchId = variable(variables, "branchId");
+      const history = thinkingServer.getHistory(sessionId);
+      const steps = history.branches[branchId];
+
+      if (!steps) {
+        throw new Error(`Branch "${branchId}" not found in session "${sessionId}"`);
+      }
+      return jsonContents(uri, {
+        branchId,
+        ...history.branchTree[branchId],
+        active: history.activeBranch === branchId,
+        steps,
+      });
+    }
+  );
+
+  server.registerResource(
+    "thinking-tool-calls",
+    new ResourceTemplate("thinking://sessions/{sessionId}/tool-calls", {
+      list: async () => ({
+        resources: thinkingServer.getSessionIds().map((id) => ({
+          uri: `${sessionUri(id)}/tool-calls`,
+          name: `Tool calls: ${id}`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: { sessionId: completeSessionId },
+    }),
+    {
+      title: "Tool calls",
+      description: "Tool calls made in a session with their results",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) =>
+      jsonContents(uri, {
+        toolCalls: thinkingServer.getHistory(variable(variables, "sessionId"))
+          .toolCalls,
+      })
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Execution priority of a tool call
+ */
+export type ToolCallPriority = "high" | "normal" | "low";
+
+const PRIORITY_RANK: Record<ToolCallPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+interface QueuedTask {
+  priority: ToolCallPriority;
+  start: () => void;
+}
+
+/**
+ * Runs tasks through a bounded concurrency pool. Queued tasks start in
+ * priority order, first-in first-out within the same priority.
+ */
+export class ToolCallScheduler {
+  private maxConcurrency: number;
+  private active: number = 0;
+  private queue: QueuedTask[] = [];
+
+  constructor(maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error("maxConcurrency must be a positive integer");
+    }
+    this.maxConcurrency = maxConcurrency;
+  }
+
+  /**
+   * Schedule a task and resolve with its result once it has run
+   */
+  public schedule<T>(
+    task: () => Promise<T>,
+    priority: ToolCallPriority = "normal"
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        this.active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.next();
+          });
+      };
+
+      this.enqueue({ priority, start });
+      this.next();
+    });
+  }
+
+  /**
+   * Number of tasks waiting for a free slot
+   */
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of tasks currently running
+   */
+  public getActiveCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Insert a task after all queued tasks of the same or higher priority
+   */
+  private enqueue(task: QueuedTask): void {
+    const rank = PRIORITY_RANK[task.priority];
+    const index = this.queue.findIndex(
+      (queued) => PRIORITY_RANK[queued.priority] > rank
+    );
+
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  /**
+   * Start queued tasks while slots are free
+   */
+  private next(): void {
+    while (this.active < this.maxConcurrency && this.queue.length > 0) {
+      this.queue.shift()!.start();
+    }
+  }
+}
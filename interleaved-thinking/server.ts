@@ -0,0 +1,369 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { InterleavedThinkingServer } from "./lib.js";
+import { forwardLogNotifications } from "./notifications.js";
+import { createProgressListener } from "./progress.js";
+import { registerHistoryResources } from "./resources.js";
+import { registerCompanionTools } from "./tools.js";
+
+/**
+ * Tool call schema; accepts JSON strings for the call and its nested objects
+ */
+const toolCallSchema = z.preprocess(
+  (val) => {
+    // If toolCall is a string, try to parse it as JSON
+    if (typeof val === "string") {
+      try {
+        return JSON.parse(val);
+      } catch {
+        // If parsing fails, return as-is and let validation handle it
+        return val;
+      }
+    }
+    // If it's an object, check nested fields
+    if (val && typeof val === "object") {
+      const obj: any = { ...val };
+      // Parse parameters if it's a string
+      if (typeof obj.parameters === "string") {
+        try {
+          obj.parameters = JSON.parse(obj.parameters);
+        } catch {
+          // Keep as-is
+        }
+      }
+      // Parse metadata if it's a string
+      if (typeof obj.metadata === "string") {
+        try {
+          obj.metadata = JSON.parse(obj.metadata);
+        } catch {
+          // Keep as-is
+        }
+      }
+      return obj;
+    }
+    return val;
+  },
+  z.object({
+    toolName: z.string().describe("Name of the tool to call"),
+    parameters: z
+      .record(z.string(), z.any())
+      .describe("Tool parameters as key-value pairs"),
+    metadata: z
+      .object({
+        timeout: z
+          .number()
+          .optional()
+          .describe("Timeout in milliseconds"),
+        retryCount: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Number of retries after a failed or timed-out attempt, capped by the server (validation errors are not retried)"
+          ),
+        priority: z
+          .enum(["high", "normal", "low"])
+          .optional()
+          .describe("Execution priority"),
+        confirmed: z
+          .boolean()
+          .optional()
+          .describe(
+            "Set true to confirm a call to a tool whose policy requires confirmation (e.g. destructive tools)"
+          ),
+      })
+      .optional()
+      .describe("Optional metadata"),
+  })
+);
+
+/**
+ * Tool result as returned in step responses
+ */
+const toolResultOutputSchema = z.object({
+  toolName: z.string(),
+  success: z.boolean(),
+  executionTime: z.number(),
+  result: z
+    .any()
+    .optional()
+    .describe("Tool output; a truncated string when larger than the size limit"),
+  error: z
+    .object({
+      type: z.string(),
+      message: z.string(),
+      recoveryStrategy: z.string().optional(),
+    })
+    .optional(),
+  truncated: z.boolean().optional(),
+  originalSize: z.number().optional(),
+  attempts: z.number().optional(),
+  cached: z
+    .boolean()
+    .optional()
+    .describe("True when the result was served from the result cache"),
+});
+
+/**
+ * Used and remaining amount of a budget
+ */
+const budgetUsageSchema = z.object({
+  used: z.number(),
+  limit: z.number(),
+  remaining: z.number(),
+});
+
+/**
+ * Create an MCP server exposing the thinking tool, companion tools and
+ * history resources, sending log records as MCP log notifications. Each
+ * transport connection needs its own McpServer; they can share one
+ * InterleavedThinkingServer.
+ */
+export function createMcpServer(thinkingServer: InterleavedThinkingServer): McpServer {
+  const server = new McpServer(
+    {
+      name: "interleaved-thinking",
+      version: "0.3.0",
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  server.registerTool(
+    "interleaved-thinking",
+    {
+      title: "Interleaved Sequential Thinking",
+      description: `A powerful tool for dynamic problem-solving through structured thinking and tool execution.
+This tool helps analyze complex problems through a flexible process that combines reasoning with action.
+Each step can include pure thinking, tool execution, or result analysis as understanding deepens.
+
+When to use this tool:
+RECOMMENDED for:
+- Tasks that need external information or tool execution during reasoning
+- Problems where strategy needs adjustment based on intermediate results
+- Situations requiring iterative "think-execute-reflect" cycles
+- Analysis that requires verification through tool calls
+- Debugging and exploration tasks with dynamic information gathering
+
+NOT RECOMMENDED for:
+- Pure logical reasoning without tool calls (use sequential-thinking instead)
+- Direct execution of a single tool (call that tool directly)
+- Simple linear tasks that don't require iteration
+
+Key features:
+- Automatic phase detection: No need to specify phase - it's inferred automatically
+- Flexible workflow: Can work as pure sequential thinking or interleaved mode with tools
+- Dynamic strategy adjustment: Adapt based on execution results
+- Branch exploration: Explore alternative approaches
+- Revision support: Correct previous reasoning
+- Complete history tracking: Record all thoughts and tool calls
+
+How it works (SIMPLIFIED):
+1. Just thinking: Provide thought + step info, automatically enters 'thinking' phase
+2. Need a tool: Add toolCall parameter, automatically enters 'tool_call' phase
+3. After tool execution: The response contains the tool output (or the error with a recoveryStrategy); the next step automatically enters 'analysis' phase and echoes the result being analyzed
+4. Advanced control: Optionally specify phase explicitly for fine-grained control
+
+Parameters explained:
+- sessionId (OPTIONAL): Keeps this conversation's steps and tool-call budget separate from other agents sharing the server
+- thought: Your current thinking content for this step
+- stepNumber: Current step number (starts from 1, can exceed totalSteps)
+- totalSteps: Estimated total steps needed (can be adjusted dynamically)
+- nextStepNeeded: Whether another step is needed (false to terminate)
+- phase (OPTIONAL): Current phase - 'thinking', 'tool_call', or 'analysis'
+  * If omitted, phase is automatically inferred based on context
+  * Provide toolCall: auto-detected as 'tool_call'
+  * After tool_call (the previous step on the same branch): auto-detected as 'analysis'
+  * Otherwise: defaults to 'thinking'
+  * 'analysis' must follow a tool_call or another analysis step
+- toolCall (OPTIONAL): Tool information - when provided, automatically triggers tool execution
+  * toolName: Name of the tool to execute (must be a tool registered with this server; unknown tools return a ToolNotFoundError listing the available ones). Tools of downstream MCP servers are namespaced as '<server>.<tool>', e.g. 'fs.read_file'
+  * parameters: Tool parameters as key-value pairs
+  * metadata: Optional timeout, retryCount, priority
+- toolCalls (OPTIONAL): Array of independent tool calls executed in parallel; queued calls run in priority order
+- isRevision (OPTIONAL): Whether this step revises previous reasoning
+- revisesStep (OPTIONAL): Which step number is being reconsidered
+- branchFromStep (OPTIONAL): Branching point step number for exploring alternatives
+- branchId (OPTIONAL): Unique identifier for the branch (new branches need branchFromStep; later steps of the branch only need branchId). Use the manage-branch tool to switch, abandon, merge or compare branches
+- needsMoreSteps (OPTIONAL): Set true if you realize more steps are needed (also needed to continue after nextStepNeeded=false)
+
+Steps are numbered consecutively per branch; a new branch continues from branchFromStep. Duplicate or skipped step numbers, unknown branch points and steps after completion are reported as warnings, or rejected when the server runs in strict mode.
+
+Every response reports the session's remaining tool call budget (calls, per-tool calls, execution time, wall-clock time) with warnings when a budget is nearly used up. Calls beyond a budget fail with a BudgetExceededError instead of running.
+
+You should:
+1. Start with an initial estimate of totalSteps
+2. For pure thinking: Just provide thought + step info (phase auto-inferred)
+3. For tool execution: Add toolCall parameter (phase auto-inferred)
+4. For explicit control: Optionally specify phase parameter
+5. Adjust totalSteps dynamically if needed
+6. Create branches to explore multiple possibilities
+7. Mark revisions when correcting previous reasoning
+8. Set nextStepNeeded=false when the task is complete
+9. Handle tool failures gracefully and adjust strategy`,
+      inputSchema: {
+        sessionId: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "OPTIONAL: Session identifier. Steps, history and tool-call budget are isolated per session; omit to use the session of the HTTP connection, or the shared default session over stdio"
+          ),
+        thought: z.string().describe("Your current thinking content"),
+        stepNumber: z
+          .number()
+          .int()
+          .min(1)
+          .describe("Current step number (e.g., 1, 2, 3)"),
+        totalSteps: z
+          .number()
+          .int()
+          .min(1)
+          .describe("Estimated total steps needed (e.g., 5, 10)"),
+        nextStepNeeded: z.boolean().describe("Whether another step is needed"),
+        phase: z
+          .union([
+            z.literal("thinking"),
+            z.literal("tool_call"),
+            z.literal("analysis"),
+          ])
+          .optional()
+          .describe(
+            "OPTIONAL: Current phase - auto-inferred if not provided. 'thinking' for reasoning, 'tool_call' for tool execution, 'analysis' for result processing. If omitted: toolCall present → 'tool_call', after tool_call → 'analysis', otherwise → 'thinking'"
+          ),
+        toolCall: toolCallSchema
+          .optional()
+          .describe("Tool call information (required when phase='tool_call')"),
+        toolCalls: z
+          .preprocess(
+            (val) => {
+              if (typeof val === "string") {
+                try {
+                  return JSON.parse(val);
+                } catch {
+                  return val;
+                }
+              }
+              return val;
+            },
+            z.array(toolCallSchema)
+          )
+          .optional()
+          .describe(
+            "Batch of independent tool calls to execute in parallel (results are returned together)"
+          ),
+        isRevision: z
+          .boolean()
+          .optional()
+          .describe("Whether this revises previous reasoning"),
+        revisesStep: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Which step is being reconsidered"),
+        branchFromStep: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Branching point step number"),
+        branchId: z.string().optional().describe("Branch identifier"),
+        needsMoreSteps: z
+          .boolean()
+          .optional()
+          .describe("If more steps are needed"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        stepNumber: z.number(),
+        totalSteps: z.number(),
+        nextStepNeeded: z.boolean(),
+        branches: z.array(z.string()),
+        activeBranch: z
+          .string()
+          .describe("Branch that steps without a branchId are added to"),
+        stepHistoryLength: z.number(),
+        phase: z.string(),
+        toolResult: toolResultOutputSchema
+          .optional()
+          .describe(
+            "Result of this step's toolCall, or in the analysis phase the result being analyzed"
+          ),
+        toolResults: z
+          .array(toolResultOutputSchema)
+          .optional()
+          .describe("Results of the toolCalls batch, in order"),
+        analyzedToolCall: z
+          .object({
+            stepNumber: z.number(),
+            toolName: z.string(),
+            parameters: z.record(z.string(), z.any()),
+          })
+          .optional()
+          .describe("The tool call whose result an analysis step is analyzing"),
+        budget: z
+          .object({
+            toolCalls: budgetUsageSchema,
+            tools: z.record(z.string(), budgetUsageSchema).optional(),
+            executionTime: budgetUsageSchema.optional(),
+            wallClockTime: budgetUsageSchema.optional(),
+            warnings: z.array(z.string()).optional(),
+          })
+          .describe(
+            "Used and remaining tool call budgets of the session; warnings list budgets that are nearly used up"
+          ),
+        warnings: z
+          .array(z.object({ rule: z.string(), message: z.string() }))
+          .optional()
+          .describe(
+            "Step-sequence problems such as duplicate or skipped step numbers (strict mode rejects the step instead)"
+          ),
+      },
+    },
+    async (args, extra) => {
+      // Args are already preprocessed by Zod, no need for manual parsing.
+      // The request signal is aborted when the client cancels the call.
+      // Without a sessionId, steps go to the session of the MCP connection.
+      const result = await thinkingServer.processStep(
+        { ...args, sessionId: args.sessionId ?? extra.sessionId },
+        {
+          signal: extra.signal,
+          onProgress: createProgressListener(extra),
+        }
+      );
+
+      // Parse the JSON response to get structured content
+      const parsedContent = JSON.parse(result.content[0].text);
+
+      if (result.isError) {
+        return {
+          content: result.content,
+          structuredContent: parsedContent,
+        };
+      }
+
+      return {
+        content: result.content,
+        structuredContent: parsedContent,
+      };
+    }
+  );
+
+  // Over HTTP, the thinking session of a connection lives as long as it does
+  server.server.oninitialized = () => {
+    const connectionSessionId = server.server.transport?.sessionId;
+    if (connectionSessionId) {
+      const onclose = server.server.onclose;
+      server.server.onclose = () => {
+        thinkingServer.closeSession(connectionSessionId);
+        onclose?.();
+      };
+    }
+  };
+  forwardLogNotifications(server, thinkingServer);
+  registerCompanionTools(server, thinkingServer);
+  registerHistoryResources(server, thinkingServer);
+
+  return server;
+}
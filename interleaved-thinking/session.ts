@@ -0,0 +1,180 @@
+import type { StateManager, ToolCallManager } from "./lib.js";
+
+/**
+ * Session used when a step doesn't specify a sessionId
+ */
+export const DEFAULT_SESSION_ID = "default";
+
+/**
+ * Isolated state and tool-call budget for one thinking conversation
+ */
+export interface ThinkingSession {
+  id: string;
+  stateManager: StateManager;
+  toolCallManager: ToolCallManager;
+  createdAt: number;
+  lastAccessedAt: number;
+  // Steps waiting for tool calls; a session is not evicted while any run
+  activeToolSteps: number;
+  // Why the session was removed, for steps still running in it
+  endReason?: SessionEndReason;
+}
+
+/**
+ * Why a session was removed: reset by the client, closed with its
+ * connection, or expired after being idle
+ */
+export type SessionEndReason = "reset" | "closed" | "expired";
+
+/**
+ * How a removed session is described in errors, after `Session "<id>"`
+ */
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  reset: "was reset",
+  closed: "was closed",
+  expired: "expired after being idle",
+};
+
+/**
+ * Summary of a live session
+ */
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  totalSteps: number;
+  totalToolCalls: number;
+}
+
+/**
+ * Session manager configuration
+ */
+export interface SessionManagerConfig {
+  // Idle time after which a session is evicted (0 disables eviction)
+  sessionTtl: number;
+  maxSessions: number;
+  createSession: (
+    id: string
+  ) => Pick<ThinkingSession, "stateManager" | "toolCallManager">;
+}
+
+/**
+ * Lazily creates per-session state and evicts idle sessions
+ */
+export class SessionManager {
+  private sessions: Map<string, ThinkingSession> = new Map();
+  private config: SessionManagerConfig;
+
+  constructor(config: SessionManagerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get a session, creating it on first use
+   */
+  public getSession(id: string = DEFAULT_SESSION_ID): ThinkingSession {
+    const now = Date.now();
+    this.evictIdleSessions(now);
+
+    let session = this.sessions.get(id);
+    if (!session) {
+      if (this.sessions.size >= this.config.maxSessions) {
+        throw new Error(
+          `Session limit reached: ${this.config.maxSessions} sessions are active`
+        );
+      }
+
+      session = {
+        id,
+        ...this.config.createSession(id),
+        createdAt: now,
+        lastAccessedAt: now,
+        activeToolSteps: 0,
+      };
+      this.sessions.set(id, session);
+    }
+
+    session.lastAccessedAt = now;
+    return session;
+  }
+
+  /**
+   * Get a live session without creating it or refreshing its idle timer
+   */
+  public peekSession(id: string): ThinkingSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * All live sessions
+   */
+  public getSessions(): ThinkingSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Check whether a session is live
+   */
+  public hasSession(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * Remove a session and its state, cancelling its running tool calls
+   */
+  public deleteSession(id: string, reason: SessionEndReason = "closed"): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    session.endReason = reason;
+    session.toolCallManager.cancel(`Session ${SESSION_END_MESSAGES[reason]}`);
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Remove all sessions
+   */
+  public clear(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Summaries of all live sessions
+   */
+  public listSessions(): SessionInfo[] {
+    return [...this.sessions.values()].map((session) => {
+      const { statistics } = session.stateManager.getHistory();
+      return {
+        id: session.id,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastAccessedAt: new Date(session.lastAccessedAt).toISOString(),
+        totalSteps: statistics.totalSteps,
+        totalToolCalls: statistics.totalToolCalls,
+      };
+    });
+  }
+
+  /**
+   * Evict sessions idle for longer than the TTL, returning their ids.
+   * Sessions with running tool calls are not idle.
+   */
+  public evictIdleSessions(now: number = Date.now()): string[] {
+    if (this.config.sessionTtl <= 0) {
+      return [];
+    }
+
+    const evicted: string[] = [];
+    for (const [id, session] of this.sessions) {
+      if (
+        session.activeToolSteps === 0 &&
+        now - session.lastAccessedAt > this.config.sessionTtl
+      ) {
+        this.deleteSession(id, "expired");
+        evicted.push(id);
+      }
+    }
+    return evicted;
+  }
+}
@@ -0,0 +1,118 @@
+import type { ToolResultData } from "./lib.js";
+
+/**
+ * Execution time distribution in milliseconds
+ */
+export interface LatencyStatistics {
+  min: number;
+  avg: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Metrics for the calls of a single tool. Failed calls include timeouts;
+ * execution time and latency only cover calls that ran, not cache hits or
+ * calls rejected before running.
+ */
+export interface ToolMetrics {
+  calls: number;
+  successfulCalls: number;
+  failedCalls: number;
+  timedOutCalls: number;
+  cacheHits: number;
+  cacheHitRatio: number;
+  retries: number;
+  totalExecutionTime: number;
+  latency: LatencyStatistics;
+}
+
+/**
+ * Metrics over all tool calls, with a breakdown by tool
+ */
+export interface ToolCallStatistics extends Omit<ToolMetrics, "calls"> {
+  totalCalls: number;
+  tools: Record<string, ToolMetrics>;
+}
+
+// Errors of calls rejected before they reached an executor
+const REJECTION_ERRORS = new Set([
+  "ToolNotFoundError",
+  "PolicyError",
+  "BudgetExceededError",
+]);
+
+/**
+ * Whether a result comes from running its executor, rather than from the
+ * cache or a rejection
+ */
+function hasRun(result: ToolResultData): boolean {
+  return !result.cached && !REJECTION_ERRORS.has(result.error?.type ?? "");
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Aggregate metrics for a set of tool results
+ */
+function computeMetrics(results: ToolResultData[]): ToolMetrics {
+  const latencies = results
+    .filter(hasRun)
+    .map((result) => result.executionTime)
+    .sort((a, b) => a - b);
+  const totalLatency = latencies.reduce((sum, time) => sum + time, 0);
+  const cacheHits = results.filter((result) => result.cached).length;
+
+  return {
+    calls: results.length,
+    successfulCalls: results.filter((result) => result.success).length,
+    failedCalls: results.filter((result) => !result.success).length,
+    timedOutCalls: results.filter((result) => result.error?.type === "TimeoutError")
+      .length,
+    cacheHits,
+    cacheHitRatio: results.length > 0 ? cacheHits / results.length : 0,
+    retries: results.reduce(
+      (sum, result) => sum + Math.max(0, (result.attempts?.length ?? 1) - 1),
+      0
+    ),
+    totalExecutionTime: totalLatency,
+    latency: {
+      min: latencies[0] ?? 0,
+      avg: latencies.length > 0 ? Math.round(totalLatency / latencies.length) : 0,
+      p95: percentile(latencies, 95),
+      max: latencies[latencies.length - 1] ?? 0,
+    },
+  };
+}
+
+/**
+ * Compute tool call statistics, overall and per tool, from call results
+ */
+export function computeToolCallStatistics(
+  results: ToolResultData[]
+): ToolCallStatistics {
+  const byTool = new Map<string, ToolResultData[]>();
+  for (const result of results) {
+    byTool.set(result.toolName, [...(byTool.get(result.toolName) ?? []), result]);
+  }
+
+  const { calls, ...totals } = computeMetrics(results);
+  return {
+    totalCalls: calls,
+    ...totals,
+    tools: Object.fromEntries(
+      [...byTool].map(([toolName, toolResults]) => [
+        toolName,
+        computeMetrics(toolResults),
+      ])
+    ),
+  };
+}
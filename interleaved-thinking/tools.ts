@@ -0,0 +1,242 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { InterleavedThinkingServer, MAIN_BRANCH } from "./lib.js";
+import { ToolError } from "./errors.js";
+import { exportSession } from "./export.js";
+import { filterHistory, summarizeHistory } from "./history.js";
+import { DEFAULT_SESSION_ID } from "./session.js";
+
+const sessionIdSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    "Session identifier (defaults to the session of the HTTP connection, or the shared default session)"
+  );
+
+/**
+ * Session a companion tool acts on: the given id, else the MCP session of
+ * the connection, else the default session
+ */
+function resolveSessionId(sessionId: string | undefined, extra: { sessionId?: string }) {
+  return sessionId ?? extra.sessionId ?? DEFAULT_SESSION_ID;
+}
+
+/**
+ * Build a JSON text tool response
+ */
+function jsonResult(data: Record<string, unknown>) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    structuredContent: data,
+  };
+}
+
+/**
+ * Register tools for inspecting, summarizing and resetting thinking sessions
+ */
+export function registerCompanionTools(
+  server: McpServer,
+  thinkingServer: InterleavedThinkingServer
+): void {
+  server.registerTool(
+    "get-thinking-history",
+    {
+      title: "Get Thinking History",
+      description: `Query the recorded steps and tool calls of a thinking session.
+All filters are optional and combined: phase, branchId, an inclusive fromStep/toStep range, and toolName (steps that called that tool).`,
+      inputSchema: {
+        sessionId: sessionIdSchema,
+        phase: z
+          .enum(["thinking", "tool_call", "analysis"])
+          .optional()
+          .describe("Only steps in this phase"),
+        branchId: z.string().optional().describe("Only steps of this branch"),
+        fromStep: z.number().int().min(1).optional().describe("First step number"),
+        toStep: z.number().int().min(1).optional().describe("Last step number"),
+        toolName: z
+          .string()
+          .optional()
+          .describe("Only steps and tool calls using this tool"),
+      },
+    },
+    async ({ sessionId: requestedId, ...filter }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      const history = thinkingServer.getHistory(sessionId);
+      const { steps, toolCalls } = filterHistory(history, filter);
+
+      return jsonResult({
+        sessionId,
+        steps,
+        toolCalls,
+        matchedSteps: steps.length,
+        totalSteps: history.statistics.totalSteps,
+      });
+    }
+  );
+
+  server.registerTool(
+    "get-tool-statistics",
+    {
+      title: "Get Tool Statistics",
+      description: `Report tool call metrics of a thinking session: success, failure and timeout counts, latency (min/avg/p95/max in ms), cache hit ratio and retries.
+Returns totals plus a breakdown per tool, or only the metrics of toolName when given.`,
+      inputSchema: {
+        sessionId: sessionIdSchema,
+        toolName: z.string().optional().describe("Only metrics of this tool"),
+      },
+    },
+    async ({ sessionId: requestedId, toolName }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      const { totalSteps, tools, ...totals } =
+        thinkingServer.getHistory(sessionId).statistics;
+
+      if (toolName !== undefined) {
+        return jsonResult({ sessionId, toolName, metrics: tools[toolName] ?? null });
+      }
+      return jsonResult({ sessionId, ...totals, tools });
+    }
+  );
+
+  server.registerTool(
+    "reset-thinking-session",
+    {
+      title: "Reset Thinking Session",
+      description:
+        "Clear the history and tool-call budget of a thinking session so it can start over.",
+      inputSchema: {
+        sessionId: sessionIdSchema,
+      },
+    },
+    async ({ sessionId: requestedId }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      const { statistics } = thinkingServer.getHistory(sessionId);
+      thinkingServer.reset(sessionId);
+
+      return jsonResult({
+        sessionId,
+        reset: true,
+        clearedSteps: statistics.totalSteps,
+        clearedToolCalls: statistics.totalToolCalls,
+      });
+    }
+  );
+
+  server.registerTool(
+    "manage-branch",
+    {
+      title: "Manage Branch",
+      description: `Work with the branch tree of a thinking session.
+- switch: make branchId the active branch; steps without a branchId are added to it ('main' returns to the main line)
+- abandon: mark branchId as a dead end; the active branch falls back to its parent
+- merge: merge branchId into 'into' (default: its parent branch) so its steps continue that branch
+- compare: show the steps and tool results of branchId and otherBranchId side by side`,
+      inputSchema: {
+        sessionId: sessionIdSchema,
+        action: z.enum(["switch", "abandon", "merge", "compare"]),
+        branchId: z.string().min(1).describe("Branch to act on"),
+        otherBranchId: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Second branch for compare (default: main)"),
+        into: z.string().min(1).optional().describe("Merge target branch"),
+      },
+    },
+    async ({ sessionId: requestedId, action, branchId, otherBranchId, into }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      try {
+        let comparison;
+        switch (action) {
+          case "switch":
+            thinkingServer.switchBranch(branchId, sessionId);
+            break;
+          case "abandon":
+            thinkingServer.abandonBranch(branchId, sessionId);
+            break;
+          case "merge":
+            thinkingServer.mergeBranch(branchId, into, sessionId);
+            break;
+          case "compare":
+            comparison = thinkingServer.compareBranches(
+              branchId,
+              otherBranchId ?? MAIN_BRANCH,
+              sessionId
+            );
+            break;
+        }
+
+        const history = thinkingServer.getHistory(sessionId);
+        return jsonResult({
+          sessionId,
+          action,
+          activeBranch: history.activeBranch,
+          branchTree: history.branchTree,
+          ...(comparison && { comparison }),
+        });
+      } catch (error) {
+        return {
+          ...jsonResult({
+            error: {
+              type: error instanceof ToolError ? error.type : "Error",
+              message: error instanceof Error ? error.message : String(error),
+              ...(error instanceof ToolError && {
+                recoveryStrategy: error.recoveryStrategy,
+              }),
+            },
+            status: "failed",
+          }),
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "summarize-thinking",
+    {
+      title: "Summarize Thinking",
+      description:
+        "Return a condensed outline of a thinking session: one line per step, conclusions, revisions, branches and tool outcomes.",
+      inputSchema: {
+        sessionId: sessionIdSchema,
+      },
+    },
+    async ({ sessionId: requestedId }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      return jsonResult({
+        sessionId,
+        ...summarizeHistory(thinkingServer.getHistory(sessionId)),
+      });
+    }
+  );
+
+  server.registerTool(
+    "export-thinking-session",
+    {
+      title: "Export Thinking Session",
+      description: `Render a thinking session for sharing, e.g. in PR descriptions or incident reviews.
+- markdown: readable report with steps grouped by phase, tool calls with parameters and results, and revisions and branches marked
+- json: stable document with format "interleaved-thinking-session" and a version number
+- mermaid: flowchart of the step graph including branches and revisions`,
+      inputSchema: {
+        sessionId: sessionIdSchema,
+        format: z
+          .enum(["markdown", "json", "mermaid"])
+          .default("markdown")
+          .describe("Export format (default markdown)"),
+      },
+    },
+    async ({ sessionId: requestedId, format }, extra) => {
+      const sessionId = resolveSessionId(requestedId, extra);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: exportSession(thinkingServer.getHistory(sessionId), sessionId, format),
+          },
+        ],
+      };
+    }
+  );
+}
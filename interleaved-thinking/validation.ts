@@ -0,0 +1,86 @@
+import type { InterleavedStepData, StateManager } from "./lib.js";
+
+/**
+ * How sequencing problems are handled: "lenient" returns them as warnings,
+ * "strict" rejects the step with a ValidationError
+ */
+export type ValidationMode = "lenient" | "strict";
+
+export type SequenceRule =
+  | "duplicate_step"
+  | "step_gap"
+  | "unknown_branch_point"
+  | "missing_branch_point"
+  | "step_after_completion"
+  | "illegal_transition";
+
+/**
+ * A step that does not follow the sequencing rules
+ */
+export interface SequenceIssue {
+  rule: SequenceRule;
+  message: string;
+}
+
+/**
+ * Check a step against the history it is about to join. Steps are numbered
+ * per branch: a new branch continues from its branchFromStep.
+ */
+export function checkStepSequence(
+  step: InterleavedStepData,
+  state: StateManager
+): SequenceIssue[] {
+  const issues: SequenceIssue[] = [];
+  const branchId = step.branchId ?? state.getActiveBranch();
+  const isNewBranch = !state.hasBranch(branchId);
+
+  if (isNewBranch && step.branchFromStep === undefined) {
+    return [
+      {
+        rule: "missing_branch_point",
+        message: `Branch "${branchId}" does not exist; set branchFromStep to start it`,
+      },
+    ];
+  }
+
+  if (isNewBranch && !state.findForkPoint(step.branchFromStep!)) {
+    issues.push({
+      rule: "unknown_branch_point",
+      message: `branchFromStep ${step.branchFromStep} does not reference a step of branch "${state.getActiveBranch()}"`,
+    });
+  }
+
+  const branchSteps = isNewBranch ? [] : state.getBranchSteps(branchId);
+  const lastStep = branchSteps[branchSteps.length - 1];
+  const lastStepNumber = isNewBranch
+    ? step.branchFromStep!
+    : Math.max(0, ...branchSteps.map((s) => s.stepNumber));
+
+  const revisesItself = step.isRevision && step.revisesStep === step.stepNumber;
+  if (!revisesItself && branchSteps.some((s) => s.stepNumber === step.stepNumber)) {
+    issues.push({
+      rule: "duplicate_step",
+      message: `Step ${step.stepNumber} already exists on branch "${branchId}"`,
+    });
+  }
+
+  if (step.stepNumber > lastStepNumber + 1) {
+    issues.push({
+      rule: "step_gap",
+      message: `Step ${step.stepNumber} skips ahead; expected step ${lastStepNumber + 1}`,
+    });
+  }
+
+  if (
+    lastStep?.nextStepNeeded === false &&
+    !step.isRevision &&
+    !step.needsMoreSteps
+  ) {
+    issues.push({
+      rule: "step_after_completion",
+      message: `Branch "${branchId}" was completed at step ${lastStep.stepNumber}; set needsMoreSteps to continue it`,
+    });
+  }
+
+  return issues;
+}